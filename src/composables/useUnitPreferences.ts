@@ -0,0 +1,30 @@
+import { ref, computed, watch } from 'vue';
+import { getUnitPreferences, UNIT_SYSTEMS, type UnitSystem } from '../utils/units';
+
+const STORAGE_KEY = 'unitSystem';
+
+function loadUnitSystem(): UnitSystem {
+  const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+  return stored && stored in UNIT_SYSTEMS ? stored as UnitSystem : 'metric';
+}
+
+// Shared by all components, so switching the system updates every view
+const unitSystem = ref<UnitSystem>(loadUnitSystem());
+
+watch(unitSystem, system => {
+  localStorage.setItem(STORAGE_KEY, system);
+});
+
+/**
+ * The unit system chosen by the user, remembered between visits
+ */
+export function useUnitPreferences() {
+  const units = computed(() => getUnitPreferences(unitSystem.value));
+  const unitSystems = Object.keys(UNIT_SYSTEMS) as UnitSystem[];
+
+  return {
+    unitSystem,
+    units,
+    unitSystems
+  };
+}
@@ -1,5 +1,9 @@
+import { type EventTimeline, type PauseSegment } from './eventTimeline';
+import { formatUtcOffset, toLocalTime, type ActivityTimeZone } from './timezone';
+import { type TrainingInterval } from './trainingSession';
+
 interface TimeSeriesDataPoint {
-  timestamp?: string;
+  timestamp?: string | Date;
   elapsed_time?: number;
   timer_time?: number;
   position_lat?: number;
@@ -84,6 +88,156 @@ export function formatSecondsToTime(seconds: number): string {
   return `${hours}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
 }
 
+/**
+ * Format a timestamp as a date string without a zone in the local time of the
+ * activity. Plotly shows Date objects in the browser's zone but takes these
+ * strings as they are.
+ * @param timestamp - Timestamp
+ * @param timeZone - Timezone of the activity
+ * @returns Local time, e.g. "2024-06-01 09:30:00"
+ */
+function toChartLocalTime(timestamp: Date, timeZone: ActivityTimeZone): string {
+  if (isNaN(timestamp.getTime())) return '';
+  return toLocalTime(timestamp, timeZone).toISOString().slice(0, 19).replace('T', ' ');
+}
+
+/**
+ * A Plotly layout shape spanning the height of the plot between two positions on
+ * the time axis
+ */
+export interface ChartShape {
+  type: 'rect' | 'line';
+  xref: 'x';
+  yref: 'paper';
+  x0: string | number | Date;
+  x1: string | number | Date;
+  y0: number;
+  y1: number;
+  layer: 'below' | 'above';
+  fillcolor?: string;
+  line: { color?: string; width: number; dash?: 'solid' | 'dot' | 'dash' };
+}
+
+/**
+ * Get Plotly shapes shading the pauses and stops of a timeline, for the x-axis of
+ * TimeSeriesMultiChart. On the timer time axis timer pauses have no width and are
+ * marked with a line instead.
+ *
+ * @param timeline - Event timeline of the session
+ * @param timeField - Field used for the X-axis
+ * @param timeZone - Timezone of the activity, as passed to `transformTimeSeriesData`
+ * @returns Shapes for the layout, none for axes other than time
+ *
+ * @example
+ * ```typescript
+ * const shapes = getPauseShapes(session.getEventTimeline(), 'elapsed_time');
+ * Plotly.relayout(chart, { shapes });
+ * ```
+ */
+export function getPauseShapes(timeline: EventTimeline, timeField: string, timeZone?: ActivityTimeZone): ChartShape[] {
+  const toX = (pause: PauseSegment, end: boolean): string | number | Date | undefined => {
+    if (timeField === 'timestamp') {
+      const timestamp = end ? pause.end : pause.start;
+      return timeZone ? toChartLocalTime(timestamp, timeZone) : timestamp;
+    } else if (timeField === 'elapsed_time') {
+      return end ? pause.end_elapsed_time : pause.start_elapsed_time;
+    } else if (timeField === 'timer_time') {
+      return end ? pause.end_timer_time : pause.start_timer_time;
+    }
+    return undefined;
+  };
+
+  return [...timeline.pauses, ...timeline.stops].flatMap((pause): ChartShape[] => {
+    const x0 = toX(pause, false);
+    const x1 = toX(pause, true);
+    if (x0 === undefined || x1 === undefined) return [];
+
+    // Timer pauses are darker than stops the timer kept running through
+    const color = pause.trigger === 'stationary' ? 'rgba(160, 174, 192, 0.15)' : 'rgba(160, 174, 192, 0.35)';
+    return [x0 === x1
+      ? { type: 'line', xref: 'x', yref: 'paper', x0, x1, y0: 0, y1: 1, layer: 'below', line: { color, width: 2, dash: 'dot' } }
+      : { type: 'rect', xref: 'x', yref: 'paper', x0, x1, y0: 0, y1: 1, layer: 'below', fillcolor: color, line: { width: 0 } }];
+  });
+}
+
+/** Fill colours of the interval bands, warm-up and cool-down fainter than rest */
+const INTERVAL_COLORS: Record<TrainingInterval['type'], string> = {
+  work: 'rgba(246, 173, 85, 0.18)',
+  rest: 'rgba(99, 179, 237, 0.12)',
+  warmup: 'rgba(99, 179, 237, 0.06)',
+  cooldown: 'rgba(99, 179, 237, 0.06)'
+};
+
+/**
+ * Get Plotly shapes shading detected intervals as work and rest bands, for the
+ * x-axis of TimeSeriesMultiChart. Each band runs until the next interval starts.
+ *
+ * @param intervals - Intervals from `TrainingSession.detectIntervals`
+ * @param records - The records the interval indexes point into
+ * @param timeField - Field used for the X-axis
+ * @param timeZone - Timezone of the activity, as passed to `transformTimeSeriesData`
+ * @returns Shapes for the layout, none for axes other than time
+ *
+ * @example
+ * ```typescript
+ * const shapes = getIntervalShapes(session.detectIntervals(), session.getAllRecords(), 'timer_time');
+ * Plotly.relayout(chart, { shapes });
+ * ```
+ */
+export function getIntervalShapes(
+  intervals: Array<Pick<TrainingInterval, 'type' | 'startIndex' | 'endIndex'>>,
+  records: TimeSeriesDataPoint[],
+  timeField: string,
+  timeZone?: ActivityTimeZone
+): ChartShape[] {
+  return intervals.flatMap((interval): ChartShape[] => {
+    const x0 = recordToX(records, interval.startIndex, timeField, timeZone);
+    const x1 = recordToX(records, interval.endIndex + 1, timeField, timeZone);
+    if (x0 === undefined || x1 === undefined) return [];
+    return [{
+      type: 'rect', xref: 'x', yref: 'paper', x0, x1, y0: 0, y1: 1, layer: 'below',
+      fillcolor: INTERVAL_COLORS[interval.type], line: { width: 0 }
+    }];
+  });
+}
+
+/**
+ * Get a Plotly shape outlining a range of records, e.g. a lap selected in the lap
+ * table, for the x-axis of TimeSeriesMultiChart
+ *
+ * @param range - Indexes of the first and last record, both inclusive
+ * @param records - The records the indexes point into
+ * @param timeField - Field used for the X-axis
+ * @param timeZone - Timezone of the activity, as passed to `transformTimeSeriesData`
+ * @returns The shape, or none for axes other than time
+ */
+export function getHighlightShapes(
+  range: { startIndex: number; endIndex: number },
+  records: TimeSeriesDataPoint[],
+  timeField: string,
+  timeZone?: ActivityTimeZone
+): ChartShape[] {
+  const x0 = recordToX(records, range.startIndex, timeField, timeZone);
+  const x1 = recordToX(records, range.endIndex + 1, timeField, timeZone);
+  if (x0 === undefined || x1 === undefined) return [];
+  return [{
+    type: 'rect', xref: 'x', yref: 'paper', x0, x1, y0: 0, y1: 1, layer: 'above',
+    fillcolor: 'rgba(226, 232, 240, 0.08)', line: { color: '#e2e8f0', width: 1 }
+  }];
+}
+
+/**
+ * Position of a record on a time axis; indexes past the end give the last record
+ */
+function recordToX(records: TimeSeriesDataPoint[], index: number, timeField: string, timeZone?: ActivityTimeZone): string | number | Date | undefined {
+  if (!['timestamp', 'elapsed_time', 'timer_time'].includes(timeField)) return undefined;
+  const record = records[Math.min(index, records.length - 1)];
+  if (!record) return undefined;
+  if (timeField !== 'timestamp') return record[timeField];
+  const timestamp = new Date(record.timestamp as string | Date);
+  return timeZone ? toChartLocalTime(timestamp, timeZone) : timestamp;
+}
+
 /**
  * Transform time series data into the format required by TimeSeriesMultiChart
  * 
@@ -92,6 +246,8 @@ export function formatSecondsToTime(seconds: number): string {
  * @param timeField - Field to use for the X-axis (defaults to 'timer_time')
  * @param chartTitle - Title for the chart
  * @param axisConfigs - Optional custom configurations for each axis
+ * @param timeZone - Timezone of the activity; timestamps are shown in its local time
+ *   instead of the browser's
  * @returns A chart configuration object ready for use with TimeSeriesMultiChart
  */
 export function transformTimeSeriesData(
@@ -99,7 +255,8 @@ export function transformTimeSeriesData(
   attributesToDisplay: string[] = ['heart_rate', 'enhanced_speed'],
   timeField: string = 'timer_time',
   chartTitle: string = 'Activity Data',
-  axisConfigs: Record<string, AxisOptions> = {}
+  axisConfigs: Record<string, AxisOptions> = {},
+  timeZone?: ActivityTimeZone
 ): ChartConfig {
   // Ensure we have data
   if (!timeSeriesData || timeSeriesData.length === 0) {
@@ -114,7 +271,8 @@ export function transformTimeSeriesData(
   // Extract the time values for x-axis
   const xValues = timeSeriesData.map(dataPoint => {
     if (timeField === 'timestamp') {
-      return new Date(dataPoint[timeField] ?? '');
+      const timestamp = new Date(dataPoint[timeField] ?? '');
+      return timeZone ? toChartLocalTime(timestamp, timeZone) : timestamp;
     } else if (timeField === 'elapsed_time' || timeField === 'timer_time') {
       return dataPoint[timeField] ?? 0; // Use 0 if null/undefined
     } else {
@@ -224,7 +382,7 @@ export function transformTimeSeriesData(
   // Format X-axis title based on timeField
   let xAxisTitle = 'Time';
   if (timeField === 'timestamp') {
-    xAxisTitle = 'Date & Time';
+    xAxisTitle = timeZone ? `Date & Time (${formatUtcOffset(timeZone.offset)})` : 'Date & Time';
   } else if (timeField === 'elapsed_time') {
     xAxisTitle = 'Elapsed Time (h:mm:ss)';
   } else if (timeField === 'timer_time') {
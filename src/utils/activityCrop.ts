@@ -0,0 +1,164 @@
+/**
+ * Activity Crop
+ *
+ * Cuts a session down to a time window or splits it in two, e.g. to drop the car
+ * ride home that was recorded because the watch was not stopped. Lap and session
+ * summaries are recalculated from the records that are kept, so every part can be
+ * analysed on its own or written to a FIT file.
+ */
+
+import { createEmptyFitMessages, type FitEventMessage, type FitLapMessage, type FitRecordMessage } from './fitDecoder';
+import { buildFitData, summarizeLaps, summarizeRecords, type IFitData, type IFitRecord } from './fitFileParser';
+import { getRecordingStart, sliceRRIntervals } from './hrv';
+import { convertMessageUnits } from './units';
+
+/** Lap fields that describe the lap rather than summarise its records */
+const KEPT_LAP_FIELDS = ['sport', 'sub_sport', 'intensity', 'lap_trigger', 'wkt_step_index'] as const;
+
+/**
+ * Crop a session to a time window
+ *
+ * Records outside the window are dropped together with laps that have no records
+ * left, RR intervals are kept for the beats inside it. Distances restart at zero
+ * and the timer is started at the first and stopped at the last record that is kept.
+ *
+ * @param fitData - Parsed FIT data
+ * @param start - Start of the window
+ * @param end - End of the window, records at the end are kept
+ * @param sessionIndex - Session to crop (default: 0)
+ * @returns Data holding only the cropped session, in the units of `fitData`
+ * @throws Error when the window is empty or holds no records
+ *
+ * @example
+ * ```typescript
+ * const fitData = await parseFitData(file);
+ * const start = fitData.activity.sessions[0].start_time!;
+ * // Keep the first hour
+ * const cropped = cropActivity(fitData, start, new Date(start.getTime() + 3600 * 1000));
+ * console.log(cropped.activity.sessions[0].total_distance);
+ * const bytes = writeFitData(cropped);
+ * ```
+ */
+export function cropActivity(fitData: IFitData, start: Date, end: Date, sessionIndex: number = 0): IFitData {
+  if (end.getTime() < start.getTime()) {
+    throw new Error('The end of the time range must not be before its start');
+  }
+  return extractTimeRange(fitData, sessionIndex, time => time >= start.getTime() && time <= end.getTime());
+}
+
+/**
+ * Split a session into two activities
+ *
+ * @param fitData - Parsed FIT data
+ * @param at - Split point, the record at this time starts the second part
+ * @param sessionIndex - Session to split (default: 0)
+ * @returns The parts before and after the split point, each holding one session
+ * @throws Error when one of the parts would have no records
+ *
+ * @example
+ * ```typescript
+ * const [paddle, drive] = splitActivity(fitData, new Date('2024-06-01T11:42:00Z'));
+ * const session = new TrainingSession(paddle);
+ * ```
+ */
+export function splitActivity(fitData: IFitData, at: Date, sessionIndex: number = 0): [IFitData, IFitData] {
+  const splitTime = at.getTime();
+  return [
+    extractTimeRange(fitData, sessionIndex, time => time < splitTime),
+    extractTimeRange(fitData, sessionIndex, time => time >= splitTime)
+  ];
+}
+
+function extractTimeRange(fitData: IFitData, sessionIndex: number, includes: (time: number) => boolean): IFitData {
+  const session = fitData.activity.sessions[sessionIndex];
+  if (!session) {
+    throw new Error(`Session ${sessionIndex} does not exist`);
+  }
+
+  const toSI = <T extends object>(message: T) => convertMessageUnits(message, fitData.units, true);
+  const lapRecords = session.laps
+    .map(lap => ({ lap, records: lap.records.filter(record => includes(record.timestamp.getTime())).map(toSI) }))
+    .filter(({ records }) => records.length > 0);
+  if (lapRecords.length === 0) {
+    throw new Error('No records in the selected time range');
+  }
+
+  const records = lapRecords.flatMap(({ records }) => records);
+  const first = records[0];
+  const last = records[records.length - 1];
+  const distanceOffset = typeof first.distance === 'number' ? first.distance : 0;
+
+  const laps = lapRecords.map(({ lap, records: kept }, index): FitLapMessage => ({
+    ...Object.fromEntries(KEPT_LAP_FIELDS.filter(field => lap[field] !== undefined).map(field => [field, lap[field]])),
+    message_index: index,
+    ...summarizeRecords(kept, String(lap.sport ?? session.sport ?? 'generic'))
+  }));
+  const { sessions, events, hrv, device_infos, developer_data_ids, field_descriptions, sports, workouts, workout_steps, ...activity } = fitData.activity;
+  const messages = createEmptyFitMessages();
+
+  if (fitData.file_id) messages.file_id.push({ ...fitData.file_id, time_created: first.timestamp });
+  messages.record = records.map(record => withoutRecordTimes(record, distanceOffset));
+  messages.lap = laps;
+  messages.session = [{
+    ...summarizeLaps(laps, first.timestamp),
+    sport: session.sport ?? laps[0].sport,
+    sub_sport: session.sub_sport
+  }];
+  messages.event = cropEvents(events, first.timestamp, last.timestamp);
+  const recordingStart = getRecordingStart(fitData);
+  // The cropped recording starts at the first record, where its timer starts
+  messages.hrv = recordingStart ? sliceRRIntervals(hrv, recordingStart, first.timestamp, last.timestamp) : [];
+  messages.device_info = device_infos;
+  messages.developer_data_id = developer_data_ids;
+  messages.field_description = field_descriptions;
+  messages.sport = sports.slice(sessionIndex, sessionIndex + 1);
+  messages.workout = workouts;
+  messages.workout_step = workout_steps;
+  messages.activity = [{
+    ...activity,
+    timestamp: last.timestamp,
+    local_timestamp: shiftLocalTimestamp(activity, last.timestamp),
+    num_sessions: 1,
+    total_timer_time: messages.session[0].total_timer_time
+  }];
+
+  const cropped = buildFitData(fitData, messages, fitData.units);
+  return fitData.merge ? { ...cropped, merge: fitData.merge } : cropped;
+}
+
+/**
+ * Records without the times that are recalculated for the new start, distances
+ * counted from the first record kept
+ */
+function withoutRecordTimes(record: IFitRecord, distanceOffset: number): FitRecordMessage {
+  const { elapsed_time, timer_time, ...message } = record;
+  return typeof message.distance === 'number'
+    ? { ...message, distance: message.distance - distanceOffset }
+    : message;
+}
+
+/**
+ * Events inside the window, framed by a timer start and stop so pauses before the
+ * window don't count
+ */
+function cropEvents(events: FitEventMessage[], start: Date, end: Date): FitEventMessage[] {
+  const inside = events.filter(event => {
+    const time = event.timestamp?.getTime();
+    return time !== undefined && time > start.getTime() && time < end.getTime();
+  });
+  return [
+    { timestamp: start, event: 'timer', event_type: 'start' },
+    ...inside,
+    { timestamp: end, event: 'timer', event_type: 'stop_all' }
+  ];
+}
+
+/**
+ * Move the local timestamp of the activity along with its end, keeping the
+ * time zone offset
+ */
+function shiftLocalTimestamp(activity: { timestamp?: Date; local_timestamp?: Date }, timestamp: Date): Date | undefined {
+  if (!activity.timestamp || !activity.local_timestamp) return undefined;
+  const offset = activity.local_timestamp.getTime() - activity.timestamp.getTime();
+  return new Date(timestamp.getTime() + offset);
+}
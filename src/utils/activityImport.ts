@@ -0,0 +1,200 @@
+/**
+ * Activity Import
+ *
+ * Bulk import of activity files, e.g. years of history from a Garmin Connect data
+ * export. ZIP archives, also archives nested in archives as in Garmin exports, are
+ * unpacked in the browser and every FIT, TCX and GPX file in them is parsed. Each
+ * file gets a result: imported, duplicate of an activity imported before, or failed
+ * with the reason.
+ */
+
+import { type ActivityFormat } from './activityWorker';
+import { type IFitData } from './fitFileParser';
+import { isZipArchive, readZipEntries } from './zipArchive';
+
+/**
+ * An activity file to import, read on demand
+ */
+export interface ActivitySource {
+  /** File name, with the path inside the archive for archive entries */
+  name: string;
+  format: ActivityFormat;
+  /** Read the content: an ArrayBuffer for FIT files, text for TCX and GPX files */
+  read(): Promise<ArrayBuffer | string>;
+}
+
+export type ImportStatus = 'imported' | 'duplicate' | 'failed';
+
+/**
+ * Outcome of importing one file
+ */
+export interface ImportResult {
+  fileName: string;
+  status: ImportStatus;
+  /** Why the file failed, or which file it duplicates */
+  reason?: string;
+  /** Key the activity is recognised by, see `getActivityKey` */
+  key?: string;
+  startTime?: Date;
+  sport?: string;
+  /** Total distance in meters */
+  totalDistance?: number;
+  /** Total timer time in seconds */
+  totalTimerTime?: number;
+  /** The file, to open an imported activity later */
+  source?: ActivitySource;
+}
+
+export interface ImportProgress {
+  /** Files handled so far */
+  done: number;
+  /** Activity files found, including those in archives */
+  total: number;
+}
+
+export interface ImportOptions {
+  /** Keys of activities imported before, new keys are added */
+  knownKeys?: Map<string, string>;
+  /** Called with the result of every file as soon as it is known */
+  onResult?: (result: ImportResult) => void;
+  onProgress?: (progress: ImportProgress) => void;
+}
+
+type ActivityParser = (content: ArrayBuffer | string, format: ActivityFormat) => Promise<IFitData>;
+
+const ACTIVITY_FORMATS: ActivityFormat[] = ['fit', 'tcx', 'gpx'];
+
+/**
+ * Import activity files and ZIP archives of activity files
+ *
+ * Files are parsed one after another with `parse`, normally the parser of the
+ * activity worker. A parser rejecting with an `AbortError` stops the import.
+ *
+ * @param files - Selected files; archives are unpacked, other files that are no
+ *   activity files fail
+ * @param parse - Activity parser
+ * @param options - Known activities and callbacks
+ * @returns The result of every file
+ *
+ * @example
+ * ```typescript
+ * const results = await importActivities(files, (content, format) => activityWorker.parse(content, format), {
+ *   onProgress: ({ done, total }) => console.log(`${done}/${total}`)
+ * });
+ * console.log(results.filter(result => result.status === 'imported').length);
+ * ```
+ */
+export async function importActivities(files: File[], parse: ActivityParser, options: ImportOptions = {}): Promise<ImportResult[]> {
+  const knownKeys = options.knownKeys ?? new Map<string, string>();
+  const results: ImportResult[] = [];
+  const report = (result: ImportResult) => {
+    results.push(result);
+    options.onResult?.(result);
+  };
+
+  const sources: ActivitySource[] = [];
+  for (const file of files) {
+    try {
+      sources.push(...await collectActivitySources(file, file.name, report));
+    } catch (error) {
+      report({ fileName: file.name, status: 'failed', reason: errorMessage(error) });
+    }
+  }
+
+  options.onProgress?.({ done: 0, total: sources.length });
+  for (const [index, source] of sources.entries()) {
+    try {
+      const fitData = await parse(await source.read(), source.format);
+      const overview = getActivityOverview(fitData);
+      const key = getActivityKey(fitData);
+      const duplicateOf = key !== undefined ? knownKeys.get(key) : undefined;
+
+      if (duplicateOf !== undefined) {
+        report({ fileName: source.name, status: 'duplicate', reason: `Same activity as ${duplicateOf}`, key, ...overview });
+      } else {
+        if (key !== undefined) knownKeys.set(key, source.name);
+        report({ fileName: source.name, status: 'imported', key, ...overview, source });
+      }
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') throw error;
+      report({ fileName: source.name, status: 'failed', reason: errorMessage(error) });
+    }
+    options.onProgress?.({ done: index + 1, total: sources.length });
+  }
+
+  return results;
+}
+
+/**
+ * Find the activity files in a file: the file itself, or the activity files of a
+ * ZIP archive and the archives inside it. Other archive entries are skipped.
+ * A nested archive that cannot be read fails on its own, the other entries are
+ * still collected.
+ *
+ * @param blob - File or archive content
+ * @param name - Name of the file
+ * @param onFailed - Called with the result of every nested archive that failed
+ * @throws Error for a file that is neither an activity file nor an archive
+ */
+export async function collectActivitySources(blob: Blob, name: string, onFailed?: (result: ImportResult) => void): Promise<ActivitySource[]> {
+  const format = getActivityFormat(name);
+  if (format) {
+    return [{ name, format, read: () => readContent(blob, format) }];
+  }
+  if (!await isZipArchive(blob)) {
+    throw new Error('Not an activity file or ZIP archive');
+  }
+
+  const sources: ActivitySource[] = [];
+  for (const entry of await readZipEntries(blob)) {
+    const entryName = `${name}/${entry.name}`;
+    const entryFormat = getActivityFormat(entry.name);
+    if (entryFormat) {
+      sources.push({ name: entryName, format: entryFormat, read: async () => readContent(new Blob([await entry.read()]), entryFormat) });
+    } else if (entry.name.toLowerCase().endsWith('.zip')) {
+      try {
+        sources.push(...await collectActivitySources(new Blob([await entry.read()]), entryName, onFailed));
+      } catch (error) {
+        onFailed?.({ fileName: entryName, status: 'failed', reason: errorMessage(error) });
+      }
+    }
+  }
+  return sources;
+}
+
+/**
+ * Get the key an activity is recognised by when it is imported again: the start
+ * time to the second, which stays the same when a file is exported in another
+ * format
+ */
+export function getActivityKey(fitData: IFitData): string | undefined {
+  const session = fitData.activity.sessions[0];
+  const start = session?.start_time ?? session?.laps[0]?.records[0]?.timestamp ?? fitData.file_id?.time_created;
+  return start ? new Date(Math.floor(start.getTime() / 1000) * 1000).toISOString() : undefined;
+}
+
+function getActivityOverview(fitData: IFitData): Pick<ImportResult, 'startTime' | 'sport' | 'totalDistance' | 'totalTimerTime'> {
+  const sessions = fitData.activity.sessions;
+  const sum = (values: Array<number | undefined>) => values.some(value => value !== undefined)
+    ? values.reduce<number>((total, value) => total + (value ?? 0), 0)
+    : undefined;
+  return {
+    startTime: sessions[0]?.start_time,
+    sport: sessions[0]?.sport !== undefined ? String(sessions[0].sport) : undefined,
+    totalDistance: sum(sessions.map(session => session.total_distance)),
+    totalTimerTime: sum(sessions.map(session => session.total_timer_time))
+  };
+}
+
+function getActivityFormat(name: string): ActivityFormat | undefined {
+  const extension = name.toLowerCase().split('.').pop() as ActivityFormat | undefined;
+  return extension && ACTIVITY_FORMATS.includes(extension) ? extension : undefined;
+}
+
+async function readContent(blob: Blob, format: ActivityFormat): Promise<ArrayBuffer | string> {
+  return format === 'fit' ? blob.arrayBuffer() : blob.text();
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,396 @@
+/**
+ * Activity Merge
+ *
+ * Combines recordings of the same activity made by several devices, e.g. heart rate
+ * from a watch and speed, stroke rate and power from a boat computer. The device
+ * clocks are aligned to the first recording, the records are resampled onto one
+ * timeline and every field is taken from a single source.
+ */
+
+import { createEmptyFitMessages, type FitDeveloperDataIdMessage, type FitFieldDescriptionMessage, type FitRecordMessage } from './fitDecoder';
+import { buildFitData, type IFitData } from './fitFileParser';
+import { TrainingSession } from './trainingSession';
+import { convertMessageUnits, SI_UNITS } from './units';
+
+/**
+ * A recording to merge
+ */
+export interface MergeSource {
+  fitData: IFitData;
+  /** Session to merge (default: 0) */
+  sessionIndex?: number;
+  /** Name used in the source attribution, e.g. the file name */
+  name?: string;
+}
+
+export interface MergeOptions {
+  /** Largest clock offset searched for, in seconds (default: 300) */
+  maxOffset?: number;
+  /** Fields cross-correlated to find the clock offset, in order of preference */
+  correlationFields?: string[];
+  /** Seconds between two samples of the merged timeline (default: 1) */
+  interval?: number;
+  /** Longest gap between two records that is interpolated, in seconds (default: 5) */
+  maxGap?: number;
+  /** Source index to take a field from, instead of the source that recorded it most */
+  fieldSources?: Record<string, number>;
+}
+
+/**
+ * Clock offset of a source relative to the first source
+ */
+export interface ClockOffset {
+  sourceIndex: number;
+  /** Seconds added to the timestamps of the source */
+  offset: number;
+  /**
+   * `correlation` when a shared field matched, `overlap` when the clocks were trusted
+   * because the recordings overlap, `start` when the start times were aligned
+   */
+  method: 'reference' | 'correlation' | 'overlap' | 'start';
+  /** Field the offset was found with */
+  field?: string;
+  /** Pearson correlation of the field at the offset */
+  correlation?: number;
+}
+
+/**
+ * The source a merged field was taken from
+ */
+export interface FieldSource {
+  sourceIndex: number;
+  sourceName: string;
+}
+
+/**
+ * How a merged activity was put together
+ */
+export interface FitMergeReport {
+  sources: string[];
+  offsets: ClockOffset[];
+  fieldSources: Record<string, FieldSource>;
+}
+
+export interface MergedActivity {
+  fitData: IFitData;
+  session: TrainingSession;
+  report: FitMergeReport;
+}
+
+type TimedRecord = FitRecordMessage & { timestamp: Date } & Record<string, unknown>;
+
+const DEFAULT_MAX_OFFSET = 300;
+const DEFAULT_CORRELATION_FIELDS = ['enhanced_speed', 'heart_rate', 'cadence', 'power'];
+/** Fewest overlapping seconds a correlation is calculated from */
+const MIN_OVERLAP_SAMPLES = 60;
+/** Weakest correlation accepted as a match */
+const MIN_CORRELATION = 0.5;
+/** Fields that must come from the same source */
+const FIELD_GROUPS = [['position_lat', 'position_long']];
+/** Fields recalculated for the merged records */
+const DERIVED_FIELDS = ['timestamp', 'elapsed_time', 'timer_time'];
+
+/**
+ * Merge recordings of one activity from several devices
+ *
+ * The first source is the reference: its laps, session summary and timer events are
+ * kept and the clocks of the other sources are aligned to it. RR intervals are only
+ * taken from the reference, they are counted from the start of its timer.
+ *
+ * @param sources - Recordings to merge, the reference first
+ * @param options - Merge options
+ * @returns The merged data in SI units, a training session and the merge report
+ * @throws Error when fewer than two sources are given or a source has no records
+ *
+ * @example
+ * ```typescript
+ * const merged = mergeActivities([
+ *   { fitData: await parseFitData(watchFile), name: 'Watch' },
+ *   { fitData: await parseFitData(boatFile), name: 'Boat computer' }
+ * ]);
+ * console.log(merged.report.offsets[1].offset);          // clock offset in seconds
+ * console.log(merged.session.getFieldSource('power'));   // { sourceIndex: 1, sourceName: 'Boat computer' }
+ * const bytes = writeFitData(merged.fitData);
+ * ```
+ */
+export function mergeActivities(sources: MergeSource[], options: MergeOptions = {}): MergedActivity {
+  if (sources.length < 2) {
+    throw new Error('At least two activities are needed for a merge');
+  }
+
+  const names = sources.map((source, index) => source.name ?? `Source ${index + 1}`);
+  const recordLists = sources.map((source, index) => {
+    const records = getSourceRecords(source);
+    if (records.length === 0) {
+      throw new Error(`${names[index]} has no records with timestamps`);
+    }
+    return records;
+  });
+
+  const offsets: ClockOffset[] = recordLists.map((records, sourceIndex) => sourceIndex === 0
+    ? { sourceIndex, offset: 0, method: 'reference' }
+    : {
+        sourceIndex,
+        ...estimateClockOffset(
+          recordLists[0],
+          records,
+          options.correlationFields ?? DEFAULT_CORRELATION_FIELDS,
+          options.maxOffset ?? DEFAULT_MAX_OFFSET
+        )
+      });
+
+  const aligned = recordLists.map((records, index) => shiftRecords(records, offsets[index].offset));
+  const fieldOwners = assignFieldSources(aligned, options.fieldSources ?? {});
+  const records = resampleRecords(aligned, fieldOwners, options.interval ?? 1, options.maxGap ?? 5);
+
+  const report: FitMergeReport = {
+    sources: names,
+    offsets,
+    fieldSources: Object.fromEntries(Object.entries(fieldOwners).map(([field, sourceIndex]) =>
+      [field, { sourceIndex, sourceName: names[sourceIndex] }]
+    ))
+  };
+
+  const fitData = { ...buildFitData(sources[0].fitData, buildMergedMessages(sources, offsets, records), SI_UNITS), merge: report };
+  return { fitData, session: new TrainingSession(fitData), report };
+}
+
+/**
+ * Records of the merged session in SI units, without the derived times
+ */
+function getSourceRecords(source: MergeSource): TimedRecord[] {
+  const sessionIndex = source.sessionIndex ?? 0;
+  const session = source.fitData.activity.sessions[sessionIndex];
+  if (!session) {
+    throw new Error(`Session ${sessionIndex} does not exist, the file has ${source.fitData.activity.sessions.length} sessions.`);
+  }
+
+  return session.laps
+    .flatMap(lap => lap.records)
+    .filter(record => record.timestamp instanceof Date)
+    .map(({ elapsed_time, timer_time, ...record }) => convertMessageUnits(record, source.fitData.units, true) as TimedRecord)
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
+
+/**
+ * Estimate the clock offset of a recording relative to the reference by finding
+ * the shift with the best correlation of a shared field. Falls back to the clocks
+ * as they are when the recordings overlap, otherwise to aligned start times.
+ */
+function estimateClockOffset(
+  reference: TimedRecord[],
+  records: TimedRecord[],
+  fields: string[],
+  maxOffset: number
+): Omit<ClockOffset, 'sourceIndex'> {
+  const firstSecond = Math.floor(Math.min(reference[0].timestamp.getTime(), records[0].timestamp.getTime()) / 1000);
+
+  for (const field of fields) {
+    const referenceSeries = toSecondSeries(reference, field, firstSecond);
+    const series = toSecondSeries(records, field, firstSecond);
+    let best: { offset: number; correlation: number } | undefined;
+
+    for (let offset = -maxOffset; offset <= maxOffset; offset++) {
+      const correlation = correlateAtOffset(referenceSeries, series, offset);
+      if (correlation !== undefined && (!best || correlation > best.correlation)) {
+        best = { offset, correlation };
+      }
+    }
+
+    if (best && best.correlation >= MIN_CORRELATION) {
+      return { offset: best.offset, method: 'correlation', field, correlation: best.correlation };
+    }
+  }
+
+  const referenceStart = reference[0].timestamp.getTime();
+  const referenceEnd = reference[reference.length - 1].timestamp.getTime();
+  const start = records[0].timestamp.getTime();
+  const end = records[records.length - 1].timestamp.getTime();
+  if (start <= referenceEnd && referenceStart <= end) {
+    return { offset: 0, method: 'overlap' };
+  }
+  return { offset: Math.round((referenceStart - start) / 1000), method: 'start' };
+}
+
+/**
+ * Values of a field per second since `firstSecond`, NaN where there is no value
+ */
+function toSecondSeries(records: TimedRecord[], field: string, firstSecond: number): Float64Array {
+  const lastSecond = Math.floor(records[records.length - 1].timestamp.getTime() / 1000);
+  const series = new Float64Array(Math.max(0, lastSecond - firstSecond + 1)).fill(NaN);
+  for (const record of records) {
+    // Watches record enhanced_speed, some bike and boat computers only speed
+    const value = record[field] ?? (field === 'enhanced_speed' ? record.speed : undefined);
+    if (typeof value === 'number') {
+      series[Math.floor(record.timestamp.getTime() / 1000) - firstSecond] = value;
+    }
+  }
+  return series;
+}
+
+/**
+ * Pearson correlation of the reference at second t with the series at t - offset,
+ * or undefined when they overlap too little or don't vary
+ */
+function correlateAtOffset(reference: Float64Array, series: Float64Array, offset: number): number | undefined {
+  let count = 0, sumA = 0, sumB = 0, sumAA = 0, sumBB = 0, sumAB = 0;
+
+  for (let second = 0; second < series.length; second++) {
+    const b = series[second];
+    const a = reference[second + offset];
+    if (Number.isNaN(b) || a === undefined || Number.isNaN(a)) continue;
+    count++;
+    sumA += a;
+    sumB += b;
+    sumAA += a * a;
+    sumBB += b * b;
+    sumAB += a * b;
+  }
+
+  if (count < MIN_OVERLAP_SAMPLES) return undefined;
+  const covariance = sumAB - sumA * sumB / count;
+  const varianceA = sumAA - sumA * sumA / count;
+  const varianceB = sumBB - sumB * sumB / count;
+  if (varianceA <= 0 || varianceB <= 0) return undefined;
+  return covariance / Math.sqrt(varianceA * varianceB);
+}
+
+function shiftRecords(records: TimedRecord[], offset: number): TimedRecord[] {
+  if (offset === 0) return records;
+  return records.map(record => ({ ...record, timestamp: new Date(record.timestamp.getTime() + offset * 1000) }));
+}
+
+/**
+ * Pick the source of every field: the requested one, otherwise the source with the
+ * most values of the field. Grouped fields follow the first field of their group.
+ */
+function assignFieldSources(sources: TimedRecord[][], requested: Record<string, number>): Record<string, number> {
+  const counts = new Map<string, number[]>();
+  sources.forEach((records, sourceIndex) => {
+    for (const record of records) {
+      for (const [field, value] of Object.entries(record)) {
+        if (value === undefined || DERIVED_FIELDS.includes(field)) continue;
+        const fieldCounts = counts.get(field) ?? sources.map(() => 0);
+        fieldCounts[sourceIndex]++;
+        counts.set(field, fieldCounts);
+      }
+    }
+  });
+
+  const owners: Record<string, number> = {};
+  counts.forEach((fieldCounts, field) => {
+    const requestedSource = requested[field];
+    owners[field] = requestedSource !== undefined && fieldCounts[requestedSource] > 0
+      ? requestedSource
+      : fieldCounts.indexOf(Math.max(...fieldCounts));
+  });
+
+  for (const [leader, ...members] of FIELD_GROUPS) {
+    if (owners[leader] === undefined) continue;
+    members.filter(member => owners[member] !== undefined).forEach(member => owners[member] = owners[leader]);
+  }
+  return owners;
+}
+
+/**
+ * Sample every field from its source on a common timeline. Numbers are interpolated
+ * between records up to `maxGap` seconds apart, other values are taken from the
+ * last record.
+ */
+function resampleRecords(
+  sources: TimedRecord[][],
+  fieldOwners: Record<string, number>,
+  interval: number,
+  maxGap: number
+): FitRecordMessage[] {
+  const fieldsBySource = sources.map((_, sourceIndex) =>
+    Object.keys(fieldOwners).filter(field => fieldOwners[field] === sourceIndex)
+  );
+  const start = Math.min(...sources.map(records => records[0].timestamp.getTime()));
+  const end = Math.max(...sources.map(records => records[records.length - 1].timestamp.getTime()));
+  const cursors = sources.map(() => 0);
+  const merged: FitRecordMessage[] = [];
+
+  for (let time = start; time <= end; time += interval * 1000) {
+    const record: Record<string, unknown> = {};
+
+    sources.forEach((records, sourceIndex) => {
+      // Last record at or before the sample time
+      while (cursors[sourceIndex] + 1 < records.length && records[cursors[sourceIndex] + 1].timestamp.getTime() <= time) {
+        cursors[sourceIndex]++;
+      }
+      const previous = records[cursors[sourceIndex]];
+      const next = records[cursors[sourceIndex] + 1];
+      const previousTime = previous.timestamp.getTime();
+      if (previousTime > time || time - previousTime > maxGap * 1000) return;
+
+      for (const field of fieldsBySource[sourceIndex]) {
+        const value = previous[field];
+        const nextValue = next?.[field];
+        if (typeof value === 'number' && typeof nextValue === 'number' && time > previousTime &&
+            next.timestamp.getTime() - previousTime <= maxGap * 1000) {
+          const fraction = (time - previousTime) / (next.timestamp.getTime() - previousTime);
+          record[field] = value + (nextValue - value) * fraction;
+        } else if (value !== undefined) {
+          record[field] = value;
+        }
+      }
+    });
+
+    if (Object.keys(record).length > 0) {
+      merged.push({ ...record, timestamp: new Date(time) });
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Messages of the merged activity in SI units: the reference's file, laps, session,
+ * events and RR intervals with the device and developer data of all sources
+ */
+function buildMergedMessages(sources: MergeSource[], offsets: ClockOffset[], records: FitRecordMessage[]) {
+  const reference = sources[0].fitData;
+  const sessionIndex = sources[0].sessionIndex ?? 0;
+  const toSI = <T extends object>(message: T) => convertMessageUnits(message, reference.units, true);
+  const { laps, ...session } = reference.activity.sessions[sessionIndex];
+  const { sessions, events, hrv, device_infos, developer_data_ids, field_descriptions, sports, workouts, workout_steps, ...activity } = reference.activity;
+  // The reference session on its own: its events, and its beats counted from its timer start
+  const referenceSession = new TrainingSession(reference, sessionIndex).toFitData().activity;
+  const messages = createEmptyFitMessages();
+
+  if (reference.file_id) messages.file_id.push(reference.file_id);
+  messages.record = records;
+  messages.lap = laps.map(({ records: lapRecords, ...lap }) => toSI(lap));
+  messages.session = [toSI(session)];
+  messages.event = referenceSession.events;
+  messages.sport = sports.slice(sessionIndex, sessionIndex + 1);
+  messages.workout = workouts;
+  messages.workout_step = workout_steps;
+  messages.activity = [{ ...activity, num_sessions: 1 }];
+  // The beats have no timestamps, they follow each other from the timer start of the
+  // file, so only the reference's beats line up with the merged timeline
+  messages.hrv = referenceSession.hrv;
+
+  // Developer data indexes are renumbered so the apps of different devices don't clash
+  let developerDataIndex = 0;
+  sources.forEach((source, sourceIndex) => {
+    const offset = offsets[sourceIndex].offset * 1000;
+    messages.device_info.push(...source.fitData.activity.device_infos.map(deviceInfo => deviceInfo.timestamp && offset
+      ? { ...deviceInfo, timestamp: new Date(deviceInfo.timestamp.getTime() + offset) }
+      : deviceInfo));
+
+    const indexes = new Map<number | undefined, number>();
+    source.fitData.activity.developer_data_ids.forEach((developerDataId: FitDeveloperDataIdMessage) => {
+      indexes.set(developerDataId.developer_data_index, developerDataIndex);
+      messages.developer_data_id.push({ ...developerDataId, developer_data_index: developerDataIndex++ });
+    });
+    source.fitData.activity.field_descriptions.forEach((description: FitFieldDescriptionMessage) => {
+      const index = indexes.get(description.developer_data_index);
+      if (index === undefined || messages.field_description.some(known => known.field_name === description.field_name)) return;
+      messages.field_description.push({ ...description, developer_data_index: index });
+    });
+  });
+
+  return messages;
+}
@@ -0,0 +1,257 @@
+/**
+ * Activity Worker Client
+ *
+ * Promise and async-iterator API around the activity parser worker
+ * (`workers/activityParser.worker.ts`). FIT decoding and the heavy analysis steps
+ * run in the worker so large sessions don't freeze the page. TCX and GPX files
+ * are parsed on the main thread, because workers have no `DOMParser`, and handed
+ * to the worker for analysis.
+ */
+
+import { type Athlete } from './athlete';
+import { parseGpxData, parseTcxData, type IFitData, type IFitRecord } from './fitFileParser';
+import { type IZoneDistributionItem } from './zones';
+import { type HrvAnalysis } from './hrv';
+import { type EventTimeline } from './eventTimeline';
+import { type MeanMaxPoint } from './meanMax';
+import { type WPrimeBalanceMethod } from './criticalPower';
+import { type CriticalModelAnalysis } from './trainingSessionAnalyser';
+import { type IntervalAnalysis, type LapAnalysis, type TrainingInterval } from './trainingSession';
+
+export type ActivityFormat = 'fit' | 'tcx' | 'gpx';
+
+/**
+ * Progress of a worker request. While decoding, `loaded` and `total` count bytes;
+ * while building and analysing they count processed records.
+ */
+export interface ParseProgress {
+  stage: 'decoding' | 'building' | 'analysing';
+  loaded: number;
+  total: number;
+}
+
+/**
+ * Analysis results of one session, computed in the worker. Values are in SI units.
+ */
+export interface SessionAnalysis {
+  /** Primitive fields of the session message with the moving time and averages */
+  summary: Record<string, string | number | boolean>;
+  heartRateDistribution: IZoneDistributionItem[];
+  /** Records with the sensor noise fixed and the W′ and D′ balance channels */
+  activityData: IFitRecord[];
+  availableDataFields: string[];
+  /** Beat-to-beat analysis, null when the file has no RR intervals */
+  hrv: HrvAnalysis | null;
+  /** Events, pauses and moving time */
+  timeline: EventTimeline;
+  /** Critical power and W′ the `w_prime_balance` channel is based on, null without power */
+  criticalPower: CriticalModelAnalysis | null;
+  /** Critical speed and D′ the `d_prime_balance` channel is based on, null without speed */
+  criticalSpeed: CriticalModelAnalysis | null;
+  /** Automatically detected work and rest intervals */
+  intervals: TrainingInterval[];
+  intervalAnalysis: IntervalAnalysis;
+  /** Laps with their statistics, zone times and changes against the previous lap */
+  laps: LapAnalysis[];
+}
+
+export interface AnalyseOptions {
+  /** Leave the records in pauses and stops out of the summary averages */
+  excludePauses?: boolean;
+  /** Model of the W′ balance channel (default: `integral`) */
+  wPrimeBalanceMethod?: WPrimeBalanceMethod;
+}
+
+export type ActivityWorkerRequest =
+  | { type: 'parse'; id: number; content: ArrayBuffer }
+  | { type: 'load'; id: number; fitData: IFitData }
+  | { type: 'analyse'; id: number; sessionIndex: number; athlete: Athlete; options: AnalyseOptions }
+  | { type: 'meanMax'; id: number; sessionIndex: number; fieldName: string; durations?: number[] };
+
+export type ActivityWorkerResponse =
+  | { type: 'progress'; id: number; progress: ParseProgress }
+  | { type: 'result'; id: number; result: unknown }
+  | { type: 'error'; id: number; message: string };
+
+type ProgressCallback = (progress: ParseProgress) => void;
+
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: unknown) => void;
+  onProgress?: ProgressCallback;
+}
+
+type RequestBody<T> = T extends { type: infer Type; id: number } ? Omit<T, 'id'> & { type: Type } : never;
+
+/**
+ * Parses and analyses activities in a Web Worker
+ *
+ * The worker keeps the last loaded activity, so its sessions can be analysed one
+ * after another. `cancel()` terminates the worker and rejects the running requests
+ * with an `AbortError`; the next request starts a fresh worker.
+ *
+ * @example
+ * ```typescript
+ * import { siven } from './athlete';
+ *
+ * const buffer = await file.arrayBuffer();
+ * const activityWorker = new ActivityWorker();
+ * const fitData = await activityWorker.parse(buffer, 'fit', p => console.log(p.stage, p.loaded / p.total));
+ * const analysis = await activityWorker.analyse(0, siven);
+ *
+ * // or iterate the progress
+ * const parsing = activityWorker.parseWithProgress(buffer, 'fit');
+ * for (let step = await parsing.next(); !step.done; step = await parsing.next()) {
+ *   console.log(step.value.stage, step.value.loaded);
+ * }
+ * ```
+ */
+export class ActivityWorker {
+  private worker: Worker | null = null;
+  private pending = new Map<number, PendingRequest>();
+  private nextId = 1;
+
+  /**
+   * Parse an activity file and load it into the worker for analysis
+   *
+   * @param content - File content; an ArrayBuffer of a FIT file is transferred to
+   *   the worker and can't be used afterwards
+   * @param format - File format
+   * @param onProgress - Called with the decoding progress
+   */
+  async parse(content: ArrayBuffer | string, format: ActivityFormat, onProgress?: ProgressCallback): Promise<IFitData> {
+    if (format === 'fit') {
+      if (typeof content === 'string') {
+        throw new Error('FIT files must be read as ArrayBuffer');
+      }
+      return this.request({ type: 'parse', content }, onProgress, [content]);
+    }
+
+    const fitData = format === 'tcx' ? await parseTcxData(content) : await parseGpxData(content);
+    await this.load(fitData);
+    return fitData;
+  }
+
+  /**
+   * Load data parsed or combined on the main thread, e.g. a merged activity
+   */
+  async load(fitData: IFitData): Promise<void> {
+    await this.request({ type: 'load', fitData });
+  }
+
+  /**
+   * Analyse a session of the loaded activity
+   *
+   * @param sessionIndex - Session to analyse
+   * @param athlete - Athlete whose zones are used
+   * @param onProgress - Called with the number of records processed
+   * @param options - Analysis options
+   */
+  analyse(sessionIndex: number, athlete: Athlete, onProgress?: ProgressCallback, options: AnalyseOptions = {}): Promise<SessionAnalysis> {
+    return this.request({ type: 'analyse', sessionIndex, athlete, options }, onProgress);
+  }
+
+  /**
+   * Calculate the mean-maximal curve of a field of a session of the loaded activity
+   *
+   * @param sessionIndex - Session
+   * @param fieldName - Field, e.g. power or heart_rate
+   * @param durations - Window lengths in seconds, by default every second up to the session length
+   */
+  calculateMeanMaxCurve(sessionIndex: number, fieldName: string, durations?: number[]): Promise<MeanMaxPoint[]> {
+    return this.request({ type: 'meanMax', sessionIndex, fieldName, durations });
+  }
+
+  parseWithProgress(content: ArrayBuffer | string, format: ActivityFormat): AsyncGenerator<ParseProgress, IFitData> {
+    return iterateProgress(onProgress => this.parse(content, format, onProgress));
+  }
+
+  analyseWithProgress(sessionIndex: number, athlete: Athlete, options: AnalyseOptions = {}): AsyncGenerator<ParseProgress, SessionAnalysis> {
+    return iterateProgress(onProgress => this.analyse(sessionIndex, athlete, onProgress, options));
+  }
+
+  /**
+   * Stop all running requests. The loaded activity is discarded.
+   */
+  cancel(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    const error = new DOMException('Parsing cancelled', 'AbortError');
+    this.pending.forEach(request => request.reject(error));
+    this.pending.clear();
+  }
+
+  private request<T>(
+    body: RequestBody<ActivityWorkerRequest>,
+    onProgress?: ProgressCallback,
+    transfer: Transferable[] = []
+  ): Promise<T> {
+    const worker = this.getWorker();
+    const id = this.nextId++;
+    return new Promise<T>((resolve, reject) => {
+      // The worker answers each request type with the result its method declares
+      this.pending.set(id, { resolve: result => resolve(result as T), reject, onProgress });
+      worker.postMessage({ ...body, id }, transfer);
+    });
+  }
+
+  private getWorker(): Worker {
+    if (this.worker) return this.worker;
+
+    const worker = new Worker(new URL('../workers/activityParser.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<ActivityWorkerResponse>) => {
+      const response = event.data;
+      const request = this.pending.get(response.id);
+      if (!request) return;
+
+      if (response.type === 'progress') {
+        request.onProgress?.(response.progress);
+        return;
+      }
+      this.pending.delete(response.id);
+      if (response.type === 'result') {
+        request.resolve(response.result);
+      } else {
+        request.reject(new Error(response.message));
+      }
+    };
+    worker.onerror = event => {
+      console.error('Activity worker error:', event.message);
+      this.pending.forEach(request => request.reject(new Error(event.message || 'Activity worker failed')));
+      this.pending.clear();
+    };
+
+    this.worker = worker;
+    return worker;
+  }
+}
+
+/**
+ * Turn a progress callback into an async iterator that yields the progress and
+ * returns the result
+ */
+async function* iterateProgress<T>(start: (onProgress: ProgressCallback) => Promise<T>): AsyncGenerator<ParseProgress, T> {
+  const queue: ParseProgress[] = [];
+  let wake: (() => void) | null = null;
+  let settled = false;
+
+  const result = start(progress => {
+    queue.push(progress);
+    wake?.();
+  });
+  result.then(() => undefined, () => undefined).then(() => {
+    settled = true;
+    wake?.();
+  });
+
+  while (true) {
+    while (queue.length > 0) {
+      yield queue.shift()!;
+    }
+    if (settled) {
+      return await result;
+    }
+    await new Promise<void>(resolve => { wake = resolve; });
+    wake = null;
+  }
+}
@@ -1,4 +1,5 @@
 import { type IZone } from "./zones";
+import { type CriticalPowerModel } from "./criticalPower";
 
 export type Athlete = {
     name: string;
@@ -13,6 +14,11 @@ export type Athlete = {
     speedZones: IZone[];
     cadenceZones: IZone[];   
 
+    /** Critical power and W′ from the season's best efforts; fitted per session when not set */
+    criticalPower?: CriticalPowerModel;
+    /** Critical speed in m/s and D′ in m, like `criticalPower` */
+    criticalSpeed?: CriticalPowerModel;
+
 
 
 
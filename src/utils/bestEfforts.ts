@@ -0,0 +1,149 @@
+/**
+ * Best Efforts
+ *
+ * The fastest contiguous segment over a set distance, e.g. the best 200 m, 500 m
+ * and 1000 m of a session for the sprint kayak race distances. Segments are found
+ * on the cumulative distance channel; the start is interpolated between records
+ * so the time is over the exact distance. No segment spans a timer pause.
+ */
+
+/** Race and benchmark distances in meters */
+export const DEFAULT_BEST_EFFORT_DISTANCES = [200, 500, 1000, 2000, 5000, 10000];
+
+/** Fields averaged over each effort, when the records have them */
+export const DEFAULT_BEST_EFFORT_FIELDS = ['heart_rate', 'stroke rate', 'cadence', 'watt', 'power'];
+
+/**
+ * The fastest segment over a distance
+ */
+export interface BestEffort {
+  /** Distance in meters */
+  distance: number;
+  /** Index of the last record at or before the start of the segment */
+  startIndex: number;
+  /** Index of the record the segment ends at */
+  endIndex: number;
+  start: Date;
+  end: Date;
+  /** Time over the distance in seconds */
+  time: number;
+  /** Average speed in m/s */
+  averageSpeed: number;
+  /** Time-weighted averages of the fields the records have over the segment */
+  averages: Record<string, number>;
+}
+
+export interface BestEffortOptions {
+  /** Fields to average over each effort (default: `DEFAULT_BEST_EFFORT_FIELDS`) */
+  fields?: string[];
+  /** Timer pauses, e.g. from the event timeline; no effort spans one */
+  pauses?: Array<{ start: Date; end: Date }>;
+}
+
+interface DistanceSample {
+  index: number;
+  time: number;
+  distance: number;
+}
+
+/**
+ * Find the fastest segment for each distance
+ *
+ * @param records - Records in time order with a timestamp and the cumulative
+ *   `distance` in meters
+ * @param distances - Distances in meters
+ * @param options - Fields to average and pauses to split at
+ * @returns The best effort per distance, in the order of `distances`; distances
+ *   longer than every stretch between pauses are left out
+ *
+ * @example
+ * ```typescript
+ * const efforts = findBestEfforts(session.getAllRecords(), [200, 500, 1000]);
+ * efforts.forEach(effort => console.log(`${effort.distance} m: ${effort.time.toFixed(1)} s`));
+ * ```
+ */
+export function findBestEfforts(
+  records: Array<Record<string, any>>,
+  distances: number[] = DEFAULT_BEST_EFFORT_DISTANCES,
+  options: BestEffortOptions = {}
+): BestEffort[] {
+  const fields = (options.fields ?? DEFAULT_BEST_EFFORT_FIELDS)
+    .filter(field => records.some(record => typeof record[field] === 'number'));
+  const stretches = splitAtPauses(records, options.pauses ?? []);
+
+  return distances.flatMap(distance => {
+    let best: { from: DistanceSample; to: DistanceSample; startTime: number } | null = null;
+
+    for (const samples of stretches) {
+      let from = 0;
+      for (const to of samples) {
+        const startDistance = to.distance - distance;
+        if (startDistance < samples[0].distance) continue;
+        // The segment starts between `from` and the next sample
+        while (samples[from + 1].distance <= startDistance) from++;
+        const next = samples[from + 1];
+        const share = (startDistance - samples[from].distance) / (next.distance - samples[from].distance);
+        const startTime = samples[from].time + share * (next.time - samples[from].time);
+        if (!best || to.time - startTime < best.to.time - best.startTime) {
+          best = { from: samples[from], to, startTime };
+        }
+      }
+    }
+
+    if (!best) return [];
+    const { from, to, startTime } = best;
+    const time = (to.time - startTime) / 1000;
+    return [{
+      distance,
+      startIndex: from.index,
+      endIndex: to.index,
+      start: new Date(startTime),
+      end: new Date(to.time),
+      time,
+      averageSpeed: distance / time,
+      averages: Object.fromEntries(fields.flatMap(field => {
+        const average = timeWeightedAverage(records, field, from.index, to.index);
+        return average === null ? [] : [[field, average]];
+      }))
+    }];
+  });
+}
+
+/**
+ * Records with a distance, split into stretches at pauses. Distance that does not
+ * increase adds nothing, so those records are dropped within a stretch.
+ */
+function splitAtPauses(records: Array<Record<string, any>>, pauses: Array<{ start: Date; end: Date }>): DistanceSample[][] {
+  const stretches: DistanceSample[][] = [];
+  let previous = -Infinity;
+  records.forEach((record, index) => {
+    if (typeof record.distance !== 'number' || isNaN(record.distance) || !record.timestamp) return;
+    const time = new Date(record.timestamp).getTime();
+    const paused = pauses.some(pause => pause.start.getTime() >= previous && pause.start.getTime() < time);
+    const stretch = stretches[stretches.length - 1];
+    if (!stretch || paused) {
+      stretches.push([{ index, time, distance: record.distance }]);
+    } else if (record.distance > stretch[stretch.length - 1].distance) {
+      stretch.push({ index, time, distance: record.distance });
+    }
+    previous = time;
+  });
+  return stretches;
+}
+
+/**
+ * Average of a field over records `from` to `to`, each value held until the next
+ * record
+ */
+function timeWeightedAverage(records: Array<Record<string, any>>, field: string, from: number, to: number): number | null {
+  let sum = 0;
+  let duration = 0;
+  for (let index = from; index < to; index++) {
+    const value = records[index][field];
+    if (typeof value !== 'number' || isNaN(value)) continue;
+    const dt = (new Date(records[index + 1].timestamp).getTime() - new Date(records[index].timestamp).getTime()) / 1000;
+    sum += value * dt;
+    duration += dt;
+  }
+  return duration > 0 ? sum / duration : null;
+}
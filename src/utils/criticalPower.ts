@@ -0,0 +1,236 @@
+/**
+ * Critical Power
+ *
+ * The critical power model describes the best power an athlete can hold for a
+ * duration: above the critical power (CP) only a finite amount of work, W′, can
+ * be done before exhaustion. The same model with speed gives the critical speed
+ * (CS) and the distance D′. Models are fitted on mean-maximal curves, preferably
+ * the best efforts of a whole season.
+ *
+ * W′ balance follows how much of W′ is left during a session: it drains above CP
+ * and recovers below it, after Skiba's integral (2012) or differential (2015)
+ * model.
+ */
+
+import { type MeanMaxPoint, type MeanMaxSample } from './meanMax';
+
+/**
+ * `2p`: P = CP + W′ / t; `3p` (Morton): P = CP + W′ / (t + W′ / (Pmax - CP)),
+ * which also holds for the shortest efforts
+ */
+export type CriticalPowerModelType = '2p' | '3p';
+
+export interface CriticalPowerModel {
+  type: CriticalPowerModelType;
+  /** Critical power in W, or critical speed in m/s */
+  cp: number;
+  /** W′ in J, or D′ in m */
+  wPrime: number;
+  /** Power or speed for the shortest efforts, for the three-parameter model */
+  pMax?: number;
+  /** Coefficient of determination of the modelled against the best averages */
+  r2: number;
+  /** Durations in seconds the model was fitted on */
+  durations: [number, number];
+}
+
+export interface CriticalPowerFitOptions {
+  /** Model to fit (default: `2p`) */
+  type?: CriticalPowerModelType;
+  /** Shortest effort in seconds (default: 120 for `2p`, 10 for `3p`) */
+  minDuration?: number;
+  /** Longest effort in seconds (default: 1200 for `2p`, 1800 for `3p`) */
+  maxDuration?: number;
+}
+
+export type WPrimeBalanceMethod = 'integral' | 'differential';
+
+export interface WPrimeBalanceOptions {
+  /** Model of the balance (default: `integral`) */
+  method?: WPrimeBalanceMethod;
+  /**
+   * Recovery time constant of the integral model in seconds; by default Skiba's
+   * formula, which is fitted for power in watts
+   */
+  tau?: number;
+  /** Gaps in seconds longer than this are counted as rest (default: 10) */
+  maxGap?: number;
+}
+
+const DEFAULT_DURATIONS: Record<CriticalPowerModelType, [number, number]> = {
+  '2p': [120, 1200],
+  '3p': [10, 1800]
+};
+
+/** Number of efforts a model is fitted on, spread evenly over the log of the durations */
+const FIT_POINTS = 24;
+
+/**
+ * Durations to calculate the best averages for when fitting a model, see
+ * `calculateMeanMaxCurve`
+ */
+export function getCriticalPowerDurations(options: CriticalPowerFitOptions = {}): number[] {
+  const [minDuration, maxDuration] = getDurationRange(options);
+  const ratio = Math.log(maxDuration / minDuration) / (FIT_POINTS - 1);
+  return [...new Set(Array.from({ length: FIT_POINTS }, (_, index) => Math.round(minDuration * Math.exp(ratio * index))))];
+}
+
+/**
+ * Fit a critical power or critical speed model on best averages
+ *
+ * @param curve - Mean-maximal curve, e.g. of the season from `combineMeanMaxCurves`
+ * @param options - Model and range of durations
+ * @returns The model, or null with fewer than three efforts in the range or
+ *   without a positive CP and W′
+ *
+ * @example
+ * ```typescript
+ * const curve = session.calculateMeanMaxCurve('power', getCriticalPowerDurations());
+ * const model = fitCriticalPowerModel(curve);
+ * console.log(`CP ${model?.cp.toFixed(0)} W, W′ ${(model?.wPrime / 1000).toFixed(1)} kJ`);
+ * ```
+ */
+export function fitCriticalPowerModel(curve: MeanMaxPoint[], options: CriticalPowerFitOptions = {}): CriticalPowerModel | null {
+  const type = options.type ?? '2p';
+  const [minDuration, maxDuration] = getDurationRange(options);
+  const wanted = new Set(getCriticalPowerDurations(options));
+  const points = curve.filter(point =>
+    point.duration >= minDuration && point.duration <= maxDuration && wanted.has(point.duration) && point.value > 0);
+  if (points.length < 3) return null;
+
+  const durations: [number, number] = [points[0].duration, points[points.length - 1].duration];
+  const model = type === '2p' ? fitTwoParameterModel(points) : fitThreeParameterModel(points);
+  if (!model || model.cp <= 0 || model.wPrime <= 0) return null;
+  return { type, ...model, r2: rSquared(points, duration => predictPower(model, duration)), durations };
+}
+
+/**
+ * Power or speed the model predicts can be held for a duration
+ */
+export function predictPower(model: Pick<CriticalPowerModel, 'cp' | 'wPrime' | 'pMax'>, duration: number): number {
+  const k = model.pMax !== undefined && model.pMax > model.cp ? model.wPrime / (model.pMax - model.cp) : 0;
+  return model.cp + model.wPrime / (duration + k);
+}
+
+/**
+ * The best average per duration over several curves, e.g. the sessions of a season
+ */
+export function combineMeanMaxCurves(curves: MeanMaxPoint[][]): MeanMaxPoint[] {
+  const best = new Map<number, MeanMaxPoint>();
+  curves.flat().forEach(point => {
+    const current = best.get(point.duration);
+    if (!current || point.value > current.value) best.set(point.duration, point);
+  });
+  return Array.from(best.values()).sort((a, b) => a.duration - b.duration);
+}
+
+/**
+ * Calculate the W′ balance (or D′ balance for speed) over a session
+ *
+ * The integral model recovers W′ exponentially with a time constant that gets
+ * shorter the further the athlete stays below CP; the differential model recovers
+ * in proportion to how far below CP the athlete is and how much W′ was used.
+ *
+ * @param samples - Power or speed in time order; missing values count as rest
+ * @param model - Critical power or speed model
+ * @param options - Balance model and gap handling
+ * @returns The balance at each sample, in J for power or m for speed; negative
+ *   values mean the model underestimates the athlete
+ *
+ * @example
+ * ```typescript
+ * const balance = calculateWPrimeBalance(records.map(r => ({ timestamp: r.timestamp, value: r.power })), model);
+ * console.log(`Lowest W′bal ${(Math.min(...balance) / 1000).toFixed(1)} kJ`);
+ * ```
+ */
+export function calculateWPrimeBalance(
+  samples: MeanMaxSample[],
+  model: Pick<CriticalPowerModel, 'cp' | 'wPrime'>,
+  options: WPrimeBalanceOptions = {}
+): number[] {
+  const { cp, wPrime } = model;
+  const maxGap = options.maxGap ?? 10;
+  const valueOf = (sample: MeanMaxSample | undefined) =>
+    sample && typeof sample.value === 'number' && !isNaN(sample.value) ? sample.value : 0;
+
+  // Each value holds until the next sample
+  const steps = samples.map((sample, index) => {
+    const dt = index > 0 ? (sample.timestamp.getTime() - samples[index - 1].timestamp.getTime()) / 1000 : 0;
+    return { dt, value: dt > maxGap ? 0 : valueOf(samples[index - 1]) };
+  });
+
+  if (options.method === 'differential') {
+    let balance = wPrime;
+    return steps.map(({ dt, value }) => {
+      balance = value > cp
+        ? balance - (value - cp) * dt
+        : wPrime - (wPrime - balance) * Math.exp(-(cp - value) * dt / wPrime);
+      return balance;
+    });
+  }
+
+  const tau = options.tau ?? skibaTau(cp, samples.map(valueOf));
+  let expended = 0;
+  return steps.map(({ dt, value }) => {
+    expended = expended * Math.exp(-dt / tau) + Math.max(0, value - cp) * dt;
+    return wPrime - expended;
+  });
+}
+
+/**
+ * Skiba's recovery time constant: 546 * e^(-0.01 * DCP) + 316, where DCP is how
+ * far CP lies above the average power of the recovery below CP
+ */
+function skibaTau(cp: number, values: number[]): number {
+  const recovery = values.filter(value => value < cp);
+  const average = recovery.length > 0 ? recovery.reduce((sum, value) => sum + value, 0) / recovery.length : 0;
+  return 546 * Math.exp(-0.01 * (cp - average)) + 316;
+}
+
+function getDurationRange(options: CriticalPowerFitOptions): [number, number] {
+  const [minDuration, maxDuration] = DEFAULT_DURATIONS[options.type ?? '2p'];
+  return [options.minDuration ?? minDuration, options.maxDuration ?? maxDuration];
+}
+
+/**
+ * The work done over each duration lies on a line: work = CP * t + W′
+ */
+function fitTwoParameterModel(points: MeanMaxPoint[]): { cp: number; wPrime: number } | null {
+  const line = linearRegression(points.map(point => point.duration), points.map(point => point.value * point.duration));
+  return line ? { cp: line.slope, wPrime: line.intercept } : null;
+}
+
+/**
+ * For a fixed k = W′ / (Pmax - CP) power is linear in 1 / (t + k); k is searched
+ * for the least squared error
+ */
+function fitThreeParameterModel(points: MeanMaxPoint[]): { cp: number; wPrime: number; pMax: number } | null {
+  let best: { cp: number; wPrime: number; pMax: number; error: number } | null = null;
+  for (let k = 0.5; k <= 300; k += 0.5) {
+    const line = linearRegression(points.map(point => 1 / (point.duration + k)), points.map(point => point.value));
+    if (!line || line.slope <= 0 || line.intercept <= 0) continue;
+
+    const model = { cp: line.intercept, wPrime: line.slope, pMax: line.intercept + line.slope / k };
+    const error = points.reduce((sum, point) => sum + (point.value - predictPower(model, point.duration)) ** 2, 0);
+    if (!best || error < best.error) best = { ...model, error };
+  }
+  return best ? { cp: best.cp, wPrime: best.wPrime, pMax: best.pMax } : null;
+}
+
+function linearRegression(x: number[], y: number[]): { slope: number; intercept: number } | null {
+  const n = x.length;
+  const meanX = x.reduce((sum, value) => sum + value, 0) / n;
+  const meanY = y.reduce((sum, value) => sum + value, 0) / n;
+  const sxx = x.reduce((sum, value) => sum + (value - meanX) ** 2, 0);
+  if (sxx === 0) return null;
+  const sxy = x.reduce((sum, value, index) => sum + (value - meanX) * (y[index] - meanY), 0);
+  const slope = sxy / sxx;
+  return { slope, intercept: meanY - slope * meanX };
+}
+
+function rSquared(points: MeanMaxPoint[], predict: (duration: number) => number): number {
+  const mean = points.reduce((sum, point) => sum + point.value, 0) / points.length;
+  const total = points.reduce((sum, point) => sum + (point.value - mean) ** 2, 0);
+  const residual = points.reduce((sum, point) => sum + (point.value - predict(point.duration)) ** 2, 0);
+  return total === 0 ? 1 : 1 - residual / total;
+}
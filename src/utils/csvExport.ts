@@ -0,0 +1,178 @@
+/**
+ * CSV Export
+ *
+ * Writes records as CSV for R, Excel and other tools: one row per record or per
+ * resampled step, one column per chosen field, values converted to a unit system.
+ * Records cleaned by `SensorDataFilter` can carry their raw values along in the
+ * `<field>_original` and `<field>_corrected` columns.
+ */
+
+import { formatUtcOffset, toLocalTime, type ActivityTimeZone } from './timezone';
+import { convertFieldValue, getPreferredFieldUnit, SI_UNITS, type UnitPreferences } from './units';
+
+/**
+ * Column the rows are ordered and resampled by
+ */
+export type CsvTimeBase = 'timer_time' | 'elapsed_time' | 'timestamp' | 'distance';
+
+export interface CsvExportOptions {
+  /** Fields to write, by default every field of the records except the time fields */
+  fields?: string[];
+  /** Units values are converted to (default: SI) */
+  units?: UnitPreferences;
+  /** First column (default: `timer_time`) */
+  timeBase?: CsvTimeBase;
+  /**
+   * Write one row per interval instead of per record, values linearly interpolated.
+   * Seconds, or meters when the time base is `distance`.
+   */
+  resampleInterval?: number;
+  /** Add the `_original` and `_corrected` columns of fields corrected by the sensor filter */
+  includeCorrections?: boolean;
+  /** Units of the fields in SI data, e.g. from `TrainingSession.getFieldUnit(field, SI_UNITS)`, shown in the header */
+  fieldUnits?: Record<string, string>;
+  /** Timezone timestamps are written in, UTC by default */
+  timeZone?: ActivityTimeZone;
+  /** Column delimiter (default: `,`) */
+  delimiter?: string;
+}
+
+type CsvRecord = Record<string, unknown>;
+
+const TIME_FIELDS = ['timestamp', 'elapsed_time', 'timer_time'];
+const TIME_BASE_UNITS: Record<CsvTimeBase, string | undefined> = {
+  timer_time: 's',
+  elapsed_time: 's',
+  timestamp: undefined,
+  distance: undefined
+};
+
+/**
+ * Write records as CSV
+ *
+ * @param records - Records in SI units, e.g. `TrainingSession.getAllRecords()` or
+ *   the filtered data of `useSensorDataFilter`
+ * @param options - Columns, units, time base and resampling
+ * @returns CSV text with a header row
+ *
+ * @example
+ * ```typescript
+ * const csv = exportRecordsToCsv(session.getAllRecords(), {
+ *   fields: ['heart_rate', 'enhanced_speed'],
+ *   units: UNIT_SYSTEMS.metric,
+ *   timeBase: 'elapsed_time',
+ *   resampleInterval: 5
+ * });
+ * // elapsed_time (s),heart_rate (bpm),enhanced_speed (km/h)
+ * // 0,92,8.64
+ * ```
+ */
+export function exportRecordsToCsv(records: CsvRecord[], options: CsvExportOptions = {}): string {
+  const units = options.units ?? SI_UNITS;
+  const timeBase = options.timeBase ?? 'timer_time';
+  const delimiter = options.delimiter ?? ',';
+  const fields = (options.fields ?? getExportableFields(records)).filter(field => field !== timeBase);
+
+  const columns = [timeBase, ...fields.flatMap(field => options.includeCorrections && records.some(record => `${field}_corrected` in record)
+    ? [field, `${field}_original`, `${field}_corrected`]
+    : [field])];
+
+  const baseRecords = records.filter(record => toBaseValue(record[timeBase]) !== undefined);
+  const rows = options.resampleInterval && options.resampleInterval > 0
+    ? resampleRecords(baseRecords, columns, timeBase, options.resampleInterval)
+    : baseRecords;
+
+  const header = columns.map(column => columnHeader(column, timeBase, units, options.fieldUnits));
+  const lines = rows.map(record => columns.map(column => formatCell(record[column], column, units, options.timeZone)));
+  return [header, ...lines].map(cells => cells.map(cell => escapeCell(cell, delimiter)).join(delimiter)).join('\n') + '\n';
+}
+
+/**
+ * Fields of the records that can be exported: everything but the time fields and
+ * the sensor filter's correction columns
+ */
+export function getExportableFields(records: CsvRecord[]): string[] {
+  const fields = new Set<string>();
+  records.forEach(record => Object.keys(record).forEach(key => fields.add(key)));
+  return Array.from(fields)
+    .filter(field => !TIME_FIELDS.includes(field) && !field.endsWith('_original') && !field.endsWith('_corrected'))
+    .sort();
+}
+
+function columnHeader(column: string, timeBase: CsvTimeBase, units: UnitPreferences, fieldUnits: Record<string, string> = {}): string {
+  if (column === 'timestamp') return column;
+  const field = column.replace(/_original$/, '');
+  const unit = column === timeBase && TIME_BASE_UNITS[timeBase]
+    ? TIME_BASE_UNITS[timeBase]
+    : column.endsWith('_corrected') ? undefined : getPreferredFieldUnit(field, fieldUnits[field], units);
+  return unit ? `${column} (${unit})` : column;
+}
+
+function formatCell(value: unknown, column: string, units: UnitPreferences, timeZone?: ActivityTimeZone): string {
+  if (value === undefined || value === null) return '';
+  if (value instanceof Date) return formatTimestamp(value, timeZone);
+  if (typeof value === 'number') {
+    if (isNaN(value)) return '';
+    const converted = convertFieldValue(column.replace(/_original$/, ''), value, units);
+    // Round away floating point noise from the unit conversion
+    return String(Number(converted.toPrecision(12)));
+  }
+  if (Array.isArray(value)) return value.join(' ');
+  return String(value);
+}
+
+/**
+ * ISO 8601 timestamp, with the offset of the activity's timezone when known
+ */
+function formatTimestamp(date: Date, timeZone?: ActivityTimeZone): string {
+  if (!timeZone) return date.toISOString();
+  const local = toLocalTime(date, timeZone).toISOString().slice(0, 19);
+  return `${local}${formatUtcOffset(timeZone.offset).replace('UTC', '')}`;
+}
+
+function escapeCell(cell: string, delimiter: string): string {
+  return cell.includes(delimiter) || cell.includes('"') || cell.includes('\n')
+    ? `"${cell.replace(/"/g, '""')}"`
+    : cell;
+}
+
+function toBaseValue(value: unknown): number | undefined {
+  if (value instanceof Date) return value.getTime() / 1000;
+  return typeof value === 'number' && !isNaN(value) ? value : undefined;
+}
+
+/**
+ * Resample records onto a regular grid of the time base. Numbers are interpolated
+ * between the records around a step, other values are taken from the nearest record.
+ */
+function resampleRecords(records: CsvRecord[], columns: string[], timeBase: CsvTimeBase, interval: number): CsvRecord[] {
+  if (records.length === 0) return [];
+  const bases = records.map(record => toBaseValue(record[timeBase])!);
+  const first = bases[0];
+  const last = bases[bases.length - 1];
+  const rows: CsvRecord[] = [];
+
+  let index = 0;
+  for (let step = 0; first + step * interval <= last; step++) {
+    const base = first + step * interval;
+    while (index < records.length - 2 && bases[index + 1] <= base) index++;
+    const before = records[index];
+    const after = records[Math.min(index + 1, records.length - 1)];
+    const span = bases[Math.min(index + 1, records.length - 1)] - bases[index];
+    const fraction = span > 0 ? Math.min(1, Math.max(0, (base - bases[index]) / span)) : 0;
+
+    const row: CsvRecord = {
+      [timeBase]: timeBase === 'timestamp' ? new Date(base * 1000) : base
+    };
+    for (const column of columns) {
+      if (column === timeBase) continue;
+      const from = before[column];
+      const to = after[column];
+      row[column] = typeof from === 'number' && typeof to === 'number'
+        ? from + (to - from) * fraction
+        : fraction < 0.5 ? from : to;
+    }
+    rows.push(row);
+  }
+  return rows;
+}
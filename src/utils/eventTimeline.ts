@@ -0,0 +1,228 @@
+/**
+ * Event Timeline
+ *
+ * Puts the FIT `event` messages of a session on the time axis of its records:
+ * timer starts and stops, laps, sessions and sensor events. From the timer events
+ * follow the pauses, manual or auto-pause, and from the speed of the records the
+ * stops the timer kept running through. Together they give the moving time next
+ * to the elapsed and timer time.
+ */
+
+import { type FitEventMessage } from './fitDecoder';
+
+/**
+ * What stopped the timer; FIT stores it in the `data` field of timer events
+ */
+export type TimerTrigger = 'manual' | 'auto' | 'fitness_equipment';
+
+/**
+ * An event of the session
+ */
+export interface TimelineEvent {
+  timestamp: Date;
+  /** Seconds since the first record of the session */
+  elapsed_time: number;
+  event: string;
+  event_type?: string;
+  /** For timer events */
+  trigger?: TimerTrigger;
+  data?: number;
+}
+
+/**
+ * A stretch of time without movement: a timer pause, or a stop the timer kept
+ * running through
+ */
+export interface PauseSegment {
+  start: Date;
+  end: Date;
+  start_elapsed_time: number;
+  end_elapsed_time: number;
+  /** Timer time at the start; timer pauses end at the same timer time */
+  start_timer_time: number;
+  end_timer_time: number;
+  /** Duration in seconds */
+  duration: number;
+  /** What stopped the timer, or `stationary` for stops with the timer running */
+  trigger: TimerTrigger | 'stationary';
+}
+
+export interface EventTimeline {
+  events: TimelineEvent[];
+  /** Timer pauses */
+  pauses: PauseSegment[];
+  /** Stops with the timer running, slower than the moving speed threshold */
+  stops: PauseSegment[];
+  /** Seconds from the first to the last record */
+  elapsedTime: number;
+  /** Seconds with the timer running */
+  timerTime: number;
+  /** Seconds the timer was paused */
+  pausedTime: number;
+  /** Seconds the timer was paused by auto-pause */
+  autoPausedTime: number;
+  /** Seconds with the timer running and moving */
+  movingTime: number;
+}
+
+export interface EventTimelineOptions {
+  /** Speed in m/s below which a record is stationary (default: 0.5) */
+  movingSpeedThreshold?: number;
+  /** Shortest stop in seconds; shorter slow stretches count as moving (default: 10) */
+  minStopDuration?: number;
+}
+
+/**
+ * The records the timeline needs, in SI units
+ */
+interface TimelineRecord {
+  timestamp: Date;
+  speed?: number;
+  enhanced_speed?: number;
+}
+
+const TIMER_TRIGGERS: Record<number, TimerTrigger> = { 0: 'manual', 1: 'auto', 2: 'fitness_equipment' };
+
+/**
+ * Build the event timeline of a session
+ *
+ * @param events - Event messages of the file; events outside the records are left out
+ * @param records - Records of the session in SI units, in time order
+ * @param options - Thresholds for stops
+ * @returns Events, pauses, stops and the elapsed, timer and moving times
+ *
+ * @example
+ * ```typescript
+ * const timeline = buildEventTimeline(fitData.activity.events, records);
+ * console.log(`Moving ${formatSecondsToTime(timeline.movingTime)} of ${formatSecondsToTime(timeline.elapsedTime)}`);
+ * ```
+ */
+export function buildEventTimeline(
+  events: FitEventMessage[],
+  records: TimelineRecord[],
+  options: EventTimelineOptions = {}
+): EventTimeline {
+  const empty = { events: [], pauses: [], stops: [], elapsedTime: 0, timerTime: 0, pausedTime: 0, autoPausedTime: 0, movingTime: 0 };
+  if (records.length === 0) return empty;
+
+  const start = records[0].timestamp.getTime();
+  const end = records[records.length - 1].timestamp.getTime();
+  const elapsedAt = (time: number) => (time - start) / 1000;
+
+  const timelineEvents: TimelineEvent[] = events
+    .filter((event): event is FitEventMessage & { timestamp: Date } => event.timestamp instanceof Date)
+    .filter(event => event.timestamp.getTime() >= start && event.timestamp.getTime() <= end)
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+    .map(event => ({
+      timestamp: event.timestamp,
+      elapsed_time: elapsedAt(event.timestamp.getTime()),
+      event: String(event.event),
+      event_type: event.event_type !== undefined ? String(event.event_type) : undefined,
+      trigger: event.event === 'timer' && event.data !== undefined ? TIMER_TRIGGERS[event.data] : undefined,
+      data: event.data
+    }));
+
+  // Timer pauses, from a stop to the next start
+  const pauses: PauseSegment[] = [];
+  let stop: TimelineEvent | undefined;
+  let pausedBefore = 0;
+  for (const event of timelineEvents.filter(event => event.event === 'timer')) {
+    if (event.event_type === 'stop' || event.event_type === 'stop_all') {
+      stop = stop ?? event;
+    } else if (event.event_type === 'start' && stop) {
+      const timerTime = stop.elapsed_time - pausedBefore;
+      const duration = event.elapsed_time - stop.elapsed_time;
+      pauses.push({
+        start: stop.timestamp,
+        end: event.timestamp,
+        start_elapsed_time: stop.elapsed_time,
+        end_elapsed_time: event.elapsed_time,
+        start_timer_time: timerTime,
+        end_timer_time: timerTime,
+        duration,
+        trigger: stop.trigger ?? 'manual'
+      });
+      pausedBefore += duration;
+      stop = undefined;
+    }
+  }
+
+  const timerTimeAt = (time: number) => {
+    const elapsed = elapsedAt(time);
+    return elapsed - pauses.reduce((paused, pause) =>
+      paused + Math.max(0, Math.min(elapsed, pause.end_elapsed_time) - pause.start_elapsed_time), 0);
+  };
+
+  const stops = findStops(records, pauses, options, elapsedAt, timerTimeAt);
+  const elapsedTime = elapsedAt(end);
+  const pausedTime = pauses.reduce((total, pause) => total + pause.duration, 0);
+  const timerTime = elapsedTime - pausedTime;
+  const stoppedTime = stops.reduce((total, pause) => total + pause.end_timer_time - pause.start_timer_time, 0);
+
+  return {
+    events: timelineEvents,
+    pauses,
+    stops,
+    elapsedTime,
+    timerTime,
+    pausedTime,
+    autoPausedTime: pauses.filter(pause => pause.trigger === 'auto').reduce((total, pause) => total + pause.duration, 0),
+    movingTime: Math.max(0, timerTime - stoppedTime)
+  };
+}
+
+/**
+ * Check if a point in time lies in a pause or stop of the timeline
+ */
+export function isPaused(timeline: EventTimeline, timestamp: Date): boolean {
+  const time = timestamp.getTime();
+  return [...timeline.pauses, ...timeline.stops].some(pause => time >= pause.start.getTime() && time < pause.end.getTime());
+}
+
+/**
+ * Runs of stationary records of at least the minimum stop duration. Records in
+ * timer pauses are skipped; files without speed have no stops.
+ */
+function findStops(
+  records: TimelineRecord[],
+  pauses: PauseSegment[],
+  options: EventTimelineOptions,
+  elapsedAt: (time: number) => number,
+  timerTimeAt: (time: number) => number
+): PauseSegment[] {
+  const threshold = options.movingSpeedThreshold ?? 0.5;
+  const minDuration = options.minStopDuration ?? 10;
+  const inPause = (time: number) => pauses.some(pause => time >= pause.start.getTime() && time < pause.end.getTime());
+
+  const stops: PauseSegment[] = [];
+  let stopStart: Date | undefined;
+  const closeStop = (end: Date) => {
+    if (!stopStart) return;
+    const duration = (end.getTime() - stopStart.getTime()) / 1000;
+    if (duration >= minDuration) {
+      stops.push({
+        start: stopStart,
+        end,
+        start_elapsed_time: elapsedAt(stopStart.getTime()),
+        end_elapsed_time: elapsedAt(end.getTime()),
+        start_timer_time: timerTimeAt(stopStart.getTime()),
+        end_timer_time: timerTimeAt(end.getTime()),
+        duration,
+        trigger: 'stationary'
+      });
+    }
+    stopStart = undefined;
+  };
+
+  for (const record of records) {
+    const speed = record.enhanced_speed ?? record.speed;
+    if (typeof speed !== 'number' || inPause(record.timestamp.getTime())) continue;
+    if (speed < threshold) {
+      stopStart = stopStart ?? record.timestamp;
+    } else {
+      closeStop(record.timestamp);
+    }
+  }
+  closeStop(records[records.length - 1].timestamp);
+  return stops;
+}
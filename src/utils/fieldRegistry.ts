@@ -0,0 +1,224 @@
+/**
+ * Field Registry
+ *
+ * Describes the fields found in a parsed file. Developer fields are registered from
+ * the file's field_description messages, keyed by developer data index and field
+ * definition number, together with the Connect IQ app (developer_data_id) that
+ * declared them. Native fields are described by the FIT profile.
+ */
+
+import { type IFitData, type FitParseOptions, getParsedFieldUnit } from "./fitFileParser";
+import { type FitDeveloperDataIdMessage, type FitFieldDescriptionMessage } from "./fitDecoder";
+import { FIT_MESSAGES, getMessageNumber } from "./fitProfile";
+
+/**
+ * The app that declared a set of developer fields
+ */
+export interface DeveloperApplication {
+  developerDataIndex: number;
+  /** Connect IQ application id as UUID */
+  applicationId?: string;
+  developerId?: string;
+  manufacturer?: string | number;
+  applicationVersion?: number;
+}
+
+/**
+ * A developer field as declared by its field_description message
+ */
+export interface DeveloperField {
+  developerDataIndex: number;
+  fieldDefinitionNumber: number;
+  name: string;
+  units: string;
+  scale: number;
+  offset: number;
+  baseTypeId?: number;
+  /** Message the field belongs to natively, when it overrides a native field */
+  nativeMessage?: string;
+  /** Name of the native field the developer field overrides */
+  nativeFieldName?: string;
+  application?: DeveloperApplication;
+}
+
+/**
+ * Unit and origin of a field
+ */
+export interface FieldInfo {
+  name: string;
+  units: string;
+  source: 'native' | 'developer' | 'derived';
+  developerField?: DeveloperField;
+}
+
+/** Fields added while parsing or analysing, not part of any FIT message */
+const DERIVED_FIELD_UNITS: Record<string, string> = {
+  elapsed_time: 's',
+  timer_time: 's',
+  w_prime_balance: 'J',
+  d_prime_balance: 'm'
+};
+
+/** Messages searched for native fields, most specific first */
+const NATIVE_MESSAGES = ['record', 'lap', 'session', 'activity', 'event', 'device_info'];
+
+/**
+ * Registry of the native and developer fields of a parsed file
+ *
+ * @example
+ * ```typescript
+ * const registry = FieldRegistry.fromFitData(fitData);
+ * registry.getUnit('stroke rate');                          // "Strokes/Min", as declared by the app
+ * registry.getUnit('enhanced_speed');                       // "m/s"
+ * registry.getUnit('enhanced_speed', UNIT_SYSTEMS.nautical); // "kn"
+ * registry.getDeveloperField(0, 3)?.application?.applicationId;
+ * ```
+ */
+export class FieldRegistry {
+  private developerFields = new Map<string, DeveloperField>();
+  private applications = new Map<number, DeveloperApplication>();
+  private units: FitParseOptions;
+
+  constructor(
+    fieldDescriptions: FitFieldDescriptionMessage[],
+    developerDataIds: FitDeveloperDataIdMessage[],
+    units: FitParseOptions
+  ) {
+    this.units = units;
+    developerDataIds.forEach(developerDataId => this.registerApplication(developerDataId));
+    fieldDescriptions.forEach(description => this.registerDeveloperField(description));
+  }
+
+  static fromFitData(fitData: IFitData): FieldRegistry {
+    return new FieldRegistry(
+      fitData.activity.field_descriptions,
+      fitData.activity.developer_data_ids,
+      fitData.units
+    );
+  }
+
+  /**
+   * Get a developer field by developer data index and field definition number
+   */
+  getDeveloperField(developerDataIndex: number, fieldDefinitionNumber: number): DeveloperField | undefined {
+    return this.developerFields.get(developerFieldKey(developerDataIndex, fieldDefinitionNumber));
+  }
+
+  /**
+   * Get a developer field by the name it is stored under on the messages
+   */
+  findDeveloperField(name: string): DeveloperField | undefined {
+    for (const field of this.developerFields.values()) {
+      if (field.name === name) return field;
+    }
+    return undefined;
+  }
+
+  getDeveloperFields(): DeveloperField[] {
+    return Array.from(this.developerFields.values());
+  }
+
+  getApplications(): DeveloperApplication[] {
+    return Array.from(this.applications.values());
+  }
+
+  isDeveloperField(name: string): boolean {
+    return this.findDeveloperField(name) !== undefined;
+  }
+
+  /**
+   * Describe a field: developer fields first, then fields added while parsing and
+   * finally the native fields of the FIT profile
+   *
+   * @param name - Field name
+   * @param units - Unit preferences to describe native fields in, by default the
+   *   units the data was parsed with
+   */
+  getFieldInfo(name: string, units: FitParseOptions = this.units): FieldInfo {
+    const developerField = this.findDeveloperField(name);
+    if (developerField) {
+      // An override without units of its own uses the units of the native field
+      const fieldUnits = developerField.units ||
+        (developerField.nativeFieldName ? this.getNativeUnit(developerField.nativeFieldName, units) : undefined);
+      return { name, units: fieldUnits ?? '', source: 'developer', developerField };
+    }
+
+    if (name in DERIVED_FIELD_UNITS) {
+      return { name, units: DERIVED_FIELD_UNITS[name], source: 'derived' };
+    }
+
+    return { name, units: this.getNativeUnit(name, units) ?? '', source: 'native' };
+  }
+
+  /**
+   * Get the unit of a field, or an empty string when it has none
+   *
+   * @param name - Field name
+   * @param units - Unit preferences, by default the units the data was parsed with
+   */
+  getUnit(name: string, units: FitParseOptions = this.units): string {
+    return this.getFieldInfo(name, units).units;
+  }
+
+  private getNativeUnit(name: string, units: FitParseOptions): string | undefined {
+    for (const messageName of NATIVE_MESSAGES) {
+      const messageNumber = getMessageNumber(messageName);
+      const field = messageNumber !== undefined
+        ? Object.values(FIT_MESSAGES[messageNumber].fields).find(profileField => profileField.name === name)
+        : undefined;
+      if (field) {
+        return getParsedFieldUnit(name, field.units, units);
+      }
+    }
+    return undefined;
+  }
+
+  private registerApplication(developerDataId: FitDeveloperDataIdMessage): void {
+    if (developerDataId.developer_data_index === undefined) return;
+    this.applications.set(developerDataId.developer_data_index, {
+      developerDataIndex: developerDataId.developer_data_index,
+      applicationId: developerDataId.application_id ? formatUuid(developerDataId.application_id) : undefined,
+      developerId: developerDataId.developer_id ? formatUuid(developerDataId.developer_id) : undefined,
+      manufacturer: developerDataId.manufacturer_id,
+      applicationVersion: developerDataId.application_version
+    });
+  }
+
+  private registerDeveloperField(description: FitFieldDescriptionMessage): void {
+    const { developer_data_index, field_definition_number, field_name } = description;
+    if (developer_data_index === undefined || field_definition_number === undefined || !field_name) return;
+
+    const nativeMessageNumber = typeof description.native_mesg_num === 'number'
+      ? description.native_mesg_num
+      : description.native_mesg_num !== undefined ? getMessageNumber(String(description.native_mesg_num)) : undefined;
+    const nativeMessage = nativeMessageNumber !== undefined ? FIT_MESSAGES[nativeMessageNumber] : undefined;
+
+    this.developerFields.set(developerFieldKey(developer_data_index, field_definition_number), {
+      developerDataIndex: developer_data_index,
+      fieldDefinitionNumber: field_definition_number,
+      name: field_name,
+      units: description.units ?? '',
+      scale: description.scale ?? 1,
+      offset: description.offset ?? 0,
+      baseTypeId: description.fit_base_type_id,
+      nativeMessage: nativeMessage?.name,
+      nativeFieldName: description.native_field_num !== undefined
+        ? nativeMessage?.fields[description.native_field_num]?.name
+        : undefined,
+      application: this.applications.get(developer_data_index)
+    });
+  }
+}
+
+function developerFieldKey(developerDataIndex: number, fieldDefinitionNumber: number): string {
+  return `${developerDataIndex}:${fieldDefinitionNumber}`;
+}
+
+/**
+ * Format 16 id bytes as UUID (xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx)
+ */
+function formatUuid(bytes: number[]): string {
+  const hex = bytes.map(byte => byte.toString(16).padStart(2, '0')).join('');
+  if (hex.length !== 32) return hex;
+  return [hex.slice(0, 8), hex.slice(8, 12), hex.slice(12, 16), hex.slice(16, 20), hex.slice(20)].join('-');
+}
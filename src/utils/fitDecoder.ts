@@ -0,0 +1,805 @@
+/**
+ * FIT Decoder
+ *
+ * A native decoder for the binary FIT format. It reads the file header, definition
+ * and data messages (including compressed-timestamp headers and developer fields),
+ * validates the header and file CRC and returns strongly typed message objects.
+ *
+ * Values are returned in the units of the FIT profile (m, m/s, s, °C), positions
+ * in degrees, timestamps as `Date` and enum fields by their profile name.
+ *
+ * @module fitDecoder
+ */
+
+import {
+  FIT_BASE_TYPES,
+  FIT_EPOCH_OFFSET_SECONDS,
+  FIT_MESSAGES,
+  FIT_TYPES,
+  SEMICIRCLES_TO_DEGREES,
+  TIMESTAMP_FIELD_NUMBER,
+  type FitBaseType,
+  type FitFieldProfile
+} from './fitProfile';
+
+/**
+ * Fields shared by every decoded message. Developer fields are added under the
+ * `field_name` declared by their field_description message.
+ */
+export interface FitMessage {
+  timestamp?: Date;
+  [developerField: string]: unknown;
+}
+
+export interface FitFileIdMessage extends FitMessage {
+  type?: string | number;
+  manufacturer?: string | number;
+  product?: number;
+  serial_number?: number;
+  time_created?: Date;
+  number?: number;
+  product_name?: string;
+}
+
+export interface FitFileCreatorMessage extends FitMessage {
+  software_version?: number;
+  hardware_version?: number;
+}
+
+export interface FitSportMessage extends FitMessage {
+  sport?: string | number;
+  sub_sport?: string | number;
+  name?: string;
+}
+
+/**
+ * Summary fields shared by lap and session messages
+ */
+export interface FitSummaryMessage extends FitMessage {
+  message_index?: number;
+  event?: string | number;
+  event_type?: string | number;
+  start_time?: Date;
+  start_position_lat?: number;
+  start_position_long?: number;
+  end_position_lat?: number;
+  end_position_long?: number;
+  sport?: string | number;
+  sub_sport?: string | number;
+  total_elapsed_time?: number;
+  total_timer_time?: number;
+  total_distance?: number;
+  total_cycles?: number;
+  total_calories?: number;
+  total_fat_calories?: number;
+  avg_speed?: number;
+  max_speed?: number;
+  avg_heart_rate?: number;
+  max_heart_rate?: number;
+  min_heart_rate?: number;
+  avg_cadence?: number;
+  max_cadence?: number;
+  avg_power?: number;
+  max_power?: number;
+  normalized_power?: number;
+  total_ascent?: number;
+  total_descent?: number;
+  total_work?: number;
+  left_right_balance?: number;
+  avg_temperature?: number;
+  max_temperature?: number;
+  total_moving_time?: number;
+  event_group?: number;
+  enhanced_avg_speed?: number;
+  enhanced_max_speed?: number;
+  enhanced_avg_altitude?: number;
+  enhanced_min_altitude?: number;
+  enhanced_max_altitude?: number;
+}
+
+export interface FitSessionMessage extends FitSummaryMessage {
+  total_training_effect?: number;
+  total_anaerobic_effect?: number;
+  first_lap_index?: number;
+  num_laps?: number;
+  trigger?: string | number;
+  nec_lat?: number;
+  nec_long?: number;
+  swc_lat?: number;
+  swc_long?: number;
+  training_stress_score?: number;
+  intensity_factor?: number;
+  threshold_power?: number;
+}
+
+export interface FitLapMessage extends FitSummaryMessage {
+  intensity?: string | number;
+  lap_trigger?: string | number;
+  wkt_step_index?: number;
+}
+
+export interface FitRecordMessage extends FitMessage {
+  position_lat?: number;
+  position_long?: number;
+  altitude?: number;
+  enhanced_altitude?: number;
+  heart_rate?: number;
+  cadence?: number;
+  fractional_cadence?: number;
+  distance?: number;
+  speed?: number;
+  enhanced_speed?: number;
+  power?: number;
+  accumulated_power?: number;
+  grade?: number;
+  cycle_length?: number;
+  temperature?: number;
+  total_cycles?: number;
+  left_right_balance?: number;
+  gps_accuracy?: number;
+  vertical_speed?: number;
+  calories?: number;
+  device_index?: number;
+}
+
+export interface FitEventMessage extends FitMessage {
+  event?: string | number;
+  event_type?: string | number;
+  data16?: number;
+  data?: number;
+  event_group?: number;
+  device_index?: number;
+}
+
+export interface FitDeviceInfoMessage extends FitMessage {
+  device_index?: number;
+  device_type?: string | number;
+  manufacturer?: string | number;
+  serial_number?: number;
+  product?: number;
+  software_version?: number;
+  hardware_version?: number;
+  cum_operating_time?: number;
+  battery_voltage?: number;
+  battery_status?: string | number;
+  sensor_position?: number;
+  descriptor?: string;
+  ant_transmission_type?: number;
+  ant_device_number?: number;
+  ant_network?: string | number;
+  source_type?: string | number;
+  product_name?: string;
+  battery_level?: number;
+}
+
+export interface FitWorkoutMessage extends FitMessage {
+  sport?: string | number;
+  num_valid_steps?: number;
+  wkt_name?: string;
+  sub_sport?: string | number;
+}
+
+export interface FitWorkoutStepMessage extends FitMessage {
+  message_index?: number;
+  wkt_step_name?: string;
+  duration_type?: string | number;
+  /** Milliseconds, centimetres or a threshold, depending on the duration type */
+  duration_value?: number;
+  target_type?: string | number;
+  /** Zone number, or the repeat count of repeat steps */
+  target_value?: number;
+  custom_target_value_low?: number;
+  custom_target_value_high?: number;
+  intensity?: string | number;
+  notes?: string;
+}
+
+export interface FitActivityMessage extends FitMessage {
+  total_timer_time?: number;
+  num_sessions?: number;
+  type?: string | number;
+  event?: string | number;
+  event_type?: string | number;
+  /** Local wall-clock time, encoded as if it were UTC */
+  local_timestamp?: Date;
+  event_group?: number;
+}
+
+export interface FitHrvMessage extends FitMessage {
+  /** Beat-to-beat (RR) intervals in seconds */
+  time?: number[];
+}
+
+export interface FitFieldDescriptionMessage extends FitMessage {
+  developer_data_index?: number;
+  field_definition_number?: number;
+  fit_base_type_id?: number;
+  field_name?: string;
+  array?: number;
+  components?: string;
+  scale?: number;
+  offset?: number;
+  units?: string;
+  bits?: string;
+  accumulate?: string;
+  fit_base_unit_id?: number;
+  native_mesg_num?: number;
+  native_field_num?: number;
+}
+
+export interface FitDeveloperDataIdMessage extends FitMessage {
+  developer_id?: number[];
+  application_id?: number[];
+  manufacturer_id?: string | number;
+  developer_data_index?: number;
+  application_version?: number;
+}
+
+/**
+ * Decoded messages grouped by message name, in file order
+ */
+export interface FitMessages {
+  file_id: FitFileIdMessage[];
+  file_creator: FitFileCreatorMessage[];
+  sport: FitSportMessage[];
+  session: FitSessionMessage[];
+  lap: FitLapMessage[];
+  record: FitRecordMessage[];
+  event: FitEventMessage[];
+  device_info: FitDeviceInfoMessage[];
+  workout: FitWorkoutMessage[];
+  workout_step: FitWorkoutStepMessage[];
+  activity: FitActivityMessage[];
+  hrv: FitHrvMessage[];
+  field_description: FitFieldDescriptionMessage[];
+  developer_data_id: FitDeveloperDataIdMessage[];
+}
+
+/**
+ * FIT file header
+ */
+export interface FitFileHeader {
+  headerSize: number;
+  protocolVersion: number;
+  profileVersion: number;
+  dataSize: number;
+  dataType: string;
+  headerCrc?: number;
+}
+
+export interface FitDecodeOptions {
+  /** Reject files whose header or file CRC does not match (default: true) */
+  validateCrc?: boolean;
+  /** Called regularly while decoding with the number of bytes decoded so far */
+  onProgress?: (bytesDecoded: number, totalBytes: number) => void;
+  /**
+   * Keep every complete message of truncated and corrupt files instead of rejecting
+   * them. Checksums are still checked and reported in the diagnostics.
+   */
+  recover?: boolean;
+}
+
+/**
+ * Outcome of a checksum check. `missing` means the file has no checksum to check,
+ * e.g. a 12 byte header or a file cut off before its CRC.
+ */
+export type FitCrcStatus = 'valid' | 'invalid' | 'missing' | 'unchecked';
+
+/**
+ * How well a file decoded. Chained files report the first problem found.
+ */
+export interface FitDecodeDiagnostics {
+  /** True when every message decoded and no checksum failed */
+  intact: boolean;
+  headerCrc: FitCrcStatus;
+  fileCrc: FitCrcStatus;
+  /** True when the file is shorter than its header declares */
+  truncated: boolean;
+  /** File size declared by the header(s), including the CRC */
+  expectedSize: number;
+  actualSize: number;
+  /** Data messages decoded, definition messages are not counted */
+  messagesDecoded: number;
+  /** Incomplete or undecodable messages discarded at the failure offset */
+  messagesDropped: number;
+  /** Byte offset of the first message that could not be decoded */
+  failureOffset?: number;
+  /** Bytes from the failure offset to the end of the file */
+  bytesDropped: number;
+  /** Why decoding stopped at the failure offset */
+  error?: string;
+}
+
+export interface FitDecodeResult {
+  header: FitFileHeader;
+  messages: FitMessages;
+  diagnostics: FitDecodeDiagnostics;
+}
+
+interface FieldDefinition {
+  number: number;
+  size: number;
+  baseType: FitBaseType;
+}
+
+interface DeveloperFieldDefinition {
+  number: number;
+  size: number;
+  developerDataIndex: number;
+}
+
+interface MessageDefinition {
+  globalMessageNumber: number;
+  littleEndian: boolean;
+  fields: FieldDefinition[];
+  developerFields: DeveloperFieldDefinition[];
+}
+
+interface MessageStreamResult {
+  messagesDecoded: number;
+  /** Start of the message decoding stopped at, in recovery mode */
+  failureOffset?: number;
+  error?: string;
+}
+
+const COMPRESSED_HEADER_MASK = 0x80;
+const DEFINITION_MESSAGE_MASK = 0x40;
+const DEVELOPER_DATA_MASK = 0x20;
+const LOCAL_MESSAGE_TYPE_MASK = 0x0F;
+const COMPRESSED_LOCAL_MESSAGE_TYPE_MASK = 0x60;
+const COMPRESSED_TIME_MASK = 0x1F;
+/** Number of messages decoded between two progress reports */
+const PROGRESS_INTERVAL = 5000;
+
+const CRC_TABLE = [
+  0x0000, 0xCC01, 0xD801, 0x1400, 0xF001, 0x3C00, 0x2800, 0xE401,
+  0xA001, 0x6C00, 0x7800, 0xB401, 0x5000, 0x9C01, 0x8801, 0x4400
+];
+
+const textDecoder = new TextDecoder('utf-8');
+
+/**
+ * Calculate the FIT CRC-16 over a byte range
+ *
+ * @param bytes - Data to checksum
+ * @param start - First byte (inclusive)
+ * @param end - Last byte (exclusive)
+ * @param crc - Running CRC to continue from
+ * @returns The CRC-16 value
+ */
+export function calculateFitCrc(bytes: Uint8Array, start: number = 0, end: number = bytes.length, crc: number = 0): number {
+  for (let i = start; i < end; i++) {
+    const byte = bytes[i];
+    let tmp = CRC_TABLE[crc & 0xF];
+    crc = (crc >> 4) & 0x0FFF;
+    crc = crc ^ tmp ^ CRC_TABLE[byte & 0xF];
+    tmp = CRC_TABLE[crc & 0xF];
+    crc = (crc >> 4) & 0x0FFF;
+    crc = crc ^ tmp ^ CRC_TABLE[(byte >> 4) & 0xF];
+  }
+  return crc;
+}
+
+/**
+ * Create an empty message collection
+ */
+export function createEmptyFitMessages(): FitMessages {
+  return {
+    file_id: [],
+    file_creator: [],
+    sport: [],
+    session: [],
+    lap: [],
+    record: [],
+    event: [],
+    device_info: [],
+    workout: [],
+    workout_step: [],
+    activity: [],
+    hrv: [],
+    field_description: [],
+    developer_data_id: []
+  };
+}
+
+/**
+ * Convert a FIT timestamp (seconds since 1989-12-31) into a Date
+ */
+export function fitTimestampToDate(seconds: number): Date {
+  return new Date((seconds + FIT_EPOCH_OFFSET_SECONDS) * 1000);
+}
+
+/**
+ * Read the FIT file header at an offset
+ */
+export function readFitHeader(bytes: Uint8Array, offset: number = 0): FitFileHeader {
+  if (bytes.length - offset < 12) {
+    throw new Error(`File too small to be a FIT file (${bytes.length - offset} bytes)`);
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const headerSize = bytes[offset];
+  if (headerSize !== 12 && headerSize !== 14) {
+    throw new Error(`Incorrect FIT header size ${headerSize}`);
+  }
+
+  const dataType = String.fromCharCode(...bytes.subarray(offset + 8, offset + 12));
+  if (dataType !== '.FIT') {
+    throw new Error(`Missing '.FIT' signature in header`);
+  }
+
+  return {
+    headerSize,
+    protocolVersion: bytes[offset + 1],
+    profileVersion: view.getUint16(offset + 2, true),
+    dataSize: view.getUint32(offset + 4, true),
+    dataType,
+    headerCrc: headerSize === 14 ? view.getUint16(offset + 12, true) : undefined
+  };
+}
+
+/**
+ * Decode a binary FIT file into typed messages
+ *
+ * Chained FIT files (several FIT files concatenated) are decoded into one
+ * message collection. With the `recover` option, truncated and corrupt files are
+ * decoded up to the first message that can't be read.
+ *
+ * @param data - The FIT file content
+ * @param options - Decoding options
+ * @returns The header of the first file, all decoded messages and diagnostics
+ * @throws Error when the file is malformed, truncated or fails the CRC check, in
+ *   recovery mode only when the first header can't be read
+ *
+ * @example
+ * ```typescript
+ * const { messages } = decodeFit(new Uint8Array(arrayBuffer));
+ * const heartRates = messages.record.map(record => record.heart_rate);
+ *
+ * const { diagnostics } = decodeFit(truncatedFile, { recover: true });
+ * console.log(`Stopped at byte ${diagnostics.failureOffset}, ${diagnostics.messagesDecoded} messages kept`);
+ * ```
+ */
+export function decodeFit(data: Uint8Array, options: FitDecodeOptions = {}): FitDecodeResult {
+  const recover = options.recover ?? false;
+  const validateCrc = recover || (options.validateCrc ?? true);
+  const messages = createEmptyFitMessages();
+  const diagnostics: FitDecodeDiagnostics = {
+    intact: true,
+    headerCrc: validateCrc ? 'valid' : 'unchecked',
+    fileCrc: validateCrc ? 'valid' : 'unchecked',
+    truncated: false,
+    expectedSize: 0,
+    actualSize: data.length,
+    messagesDecoded: 0,
+    messagesDropped: 0,
+    bytesDropped: 0
+  };
+  const stopAt = (failureOffset: number, error: string) => {
+    diagnostics.failureOffset = failureOffset;
+    diagnostics.bytesDropped = data.length - failureOffset;
+    diagnostics.error = error;
+  };
+  let firstHeader: FitFileHeader | undefined;
+  let offset = 0;
+
+  while (offset < data.length) {
+    let header: FitFileHeader;
+    try {
+      header = readFitHeader(data, offset);
+    } catch (error) {
+      // Without a readable first header there is nothing to recover
+      if (!recover || !firstHeader) throw error;
+      stopAt(offset, error instanceof Error ? error.message : String(error));
+      break;
+    }
+    firstHeader = firstHeader ?? header;
+
+    const dataStart = offset + header.headerSize;
+    const dataEnd = dataStart + header.dataSize;
+    diagnostics.expectedSize = dataEnd + 2;
+    const truncated = dataEnd + 2 > data.length;
+    if (truncated) {
+      if (!recover) {
+        throw new Error(`FIT file truncated: expected ${dataEnd + 2 - offset} bytes, got ${data.length - offset}`);
+      }
+      diagnostics.truncated = true;
+    }
+
+    if (validateCrc) {
+      const headerCrc: FitCrcStatus = !header.headerCrc ? 'missing'
+        : header.headerCrc === calculateFitCrc(data, offset, offset + 12) ? 'valid' : 'invalid';
+      const fileCrc: FitCrcStatus = truncated ? 'missing'
+        : (data[dataEnd] | (data[dataEnd + 1] << 8)) === calculateFitCrc(data, offset, dataEnd) ? 'valid' : 'invalid';
+
+      if (!recover && headerCrc === 'invalid') {
+        throw new Error('FIT header CRC mismatch');
+      }
+      if (!recover && fileCrc === 'invalid') {
+        throw new Error('FIT file CRC mismatch');
+      }
+      if (diagnostics.headerCrc === 'valid') diagnostics.headerCrc = headerCrc;
+      if (diagnostics.fileCrc === 'valid') diagnostics.fileCrc = fileCrc;
+    }
+
+    const result = decodeMessages(data, dataStart, Math.min(dataEnd, data.length), messages, options.onProgress, recover);
+    diagnostics.messagesDecoded += result.messagesDecoded;
+    if (result.failureOffset !== undefined) {
+      diagnostics.messagesDropped += 1;
+      stopAt(result.failureOffset, result.error ?? 'Unknown error');
+      break;
+    }
+
+    offset = dataEnd + 2;
+    options.onProgress?.(Math.min(offset, data.length), data.length);
+
+    // Trailing padding shorter than a header is not another chained file
+    if (data.length - offset < 12) break;
+  }
+
+  diagnostics.intact = !diagnostics.truncated && diagnostics.failureOffset === undefined &&
+    diagnostics.headerCrc !== 'invalid' && diagnostics.fileCrc !== 'invalid';
+
+  return { header: firstHeader!, messages, diagnostics };
+}
+
+/**
+ * Decode the record stream between the header and the file CRC. In recovery mode
+ * decoding stops at the first message that can't be decoded, keeping the messages
+ * before it.
+ */
+function decodeMessages(
+  bytes: Uint8Array,
+  start: number,
+  end: number,
+  messages: FitMessages,
+  onProgress?: (bytesDecoded: number, totalBytes: number) => void,
+  recover = false
+): MessageStreamResult {
+  let messagesDecoded = 0;
+  let messageStart = start;
+  try {
+    decodeMessageStream(bytes, start, end, messages, onProgress, (nextOffset, dataMessage) => {
+      if (dataMessage) messagesDecoded++;
+      messageStart = nextOffset;
+    });
+  } catch (error) {
+    if (!recover) throw error;
+    return { messagesDecoded, failureOffset: messageStart, error: error instanceof Error ? error.message : String(error) };
+  }
+  return { messagesDecoded };
+}
+
+/**
+ * Decode messages one after another, calling `onMessage` with the offset of the
+ * next message after every complete definition or data message
+ */
+function decodeMessageStream(
+  bytes: Uint8Array,
+  start: number,
+  end: number,
+  messages: FitMessages,
+  onProgress: ((bytesDecoded: number, totalBytes: number) => void) | undefined,
+  onMessage: (nextOffset: number, dataMessage: boolean) => void
+): void {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const definitions: Array<MessageDefinition | undefined> = [];
+  const developerFieldDescriptions = new Map<string, FitFieldDescriptionMessage>();
+  let lastTimestamp = 0;
+  let messageCount = 0;
+  let offset = start;
+
+  const ensureAvailable = (size: number) => {
+    if (offset + size > end) {
+      throw new Error(`Unexpected end of FIT data at byte ${offset}`);
+    }
+  };
+
+  while (offset < end) {
+    if (onProgress && ++messageCount % PROGRESS_INTERVAL === 0) {
+      onProgress(offset, bytes.length);
+    }
+
+    const recordHeader = bytes[offset];
+    offset += 1;
+
+    if ((recordHeader & COMPRESSED_HEADER_MASK) === 0 && (recordHeader & DEFINITION_MESSAGE_MASK) !== 0) {
+      // Definition message
+      ensureAvailable(5);
+      const littleEndian = bytes[offset + 1] === 0;
+      const globalMessageNumber = view.getUint16(offset + 2, littleEndian);
+      const fieldCount = bytes[offset + 4];
+      offset += 5;
+
+      ensureAvailable(fieldCount * 3);
+      const fields: FieldDefinition[] = [];
+      for (let i = 0; i < fieldCount; i++) {
+        const baseTypeId = bytes[offset + 2];
+        fields.push({
+          number: bytes[offset],
+          size: bytes[offset + 1],
+          baseType: FIT_BASE_TYPES[baseTypeId] ?? FIT_BASE_TYPES[0x0D]
+        });
+        offset += 3;
+      }
+
+      const developerFields: DeveloperFieldDefinition[] = [];
+      if ((recordHeader & DEVELOPER_DATA_MASK) !== 0) {
+        ensureAvailable(1);
+        const developerFieldCount = bytes[offset];
+        offset += 1;
+        ensureAvailable(developerFieldCount * 3);
+        for (let i = 0; i < developerFieldCount; i++) {
+          developerFields.push({
+            number: bytes[offset],
+            size: bytes[offset + 1],
+            developerDataIndex: bytes[offset + 2]
+          });
+          offset += 3;
+        }
+      }
+
+      definitions[recordHeader & LOCAL_MESSAGE_TYPE_MASK] = { globalMessageNumber, littleEndian, fields, developerFields };
+      onMessage(offset, false);
+      continue;
+    }
+
+    // Data message, either with a normal or a compressed timestamp header
+    const compressed = (recordHeader & COMPRESSED_HEADER_MASK) !== 0;
+    const localMessageType = compressed
+      ? (recordHeader & COMPRESSED_LOCAL_MESSAGE_TYPE_MASK) >> 5
+      : recordHeader & LOCAL_MESSAGE_TYPE_MASK;
+    const definition = definitions[localMessageType];
+    if (!definition) {
+      throw new Error(`Missing definition for local message type ${localMessageType} at byte ${offset - 1}`);
+    }
+
+    const profile = FIT_MESSAGES[definition.globalMessageNumber];
+    const message: Record<string, unknown> = {};
+
+    for (const field of definition.fields) {
+      ensureAvailable(field.size);
+      const raw = readFieldValue(bytes, view, offset, field.size, field.baseType, definition.littleEndian);
+      offset += field.size;
+
+      if (field.number === TIMESTAMP_FIELD_NUMBER && typeof raw === 'number') {
+        lastTimestamp = raw;
+      }
+
+      const fieldProfile = profile?.fields[field.number];
+      if (raw === undefined || !fieldProfile) continue;
+      message[fieldProfile.name] = applyFieldProfile(fieldProfile.array && !Array.isArray(raw) ? [raw] as number[] : raw, fieldProfile);
+    }
+
+    for (const developerField of definition.developerFields) {
+      ensureAvailable(developerField.size);
+      const description = developerFieldDescriptions.get(`${developerField.developerDataIndex}:${developerField.number}`);
+      const baseType = description?.fit_base_type_id !== undefined ? FIT_BASE_TYPES[description.fit_base_type_id] : undefined;
+      if (description?.field_name && baseType) {
+        const raw = readFieldValue(bytes, view, offset, developerField.size, baseType, definition.littleEndian);
+        if (raw !== undefined) {
+          message[description.field_name] = applyDeveloperFieldScale(raw, description);
+        }
+      }
+      offset += developerField.size;
+    }
+
+    if (compressed) {
+      const timeOffset = recordHeader & COMPRESSED_TIME_MASK;
+      lastTimestamp += (timeOffset - (lastTimestamp & COMPRESSED_TIME_MASK)) & COMPRESSED_TIME_MASK;
+      message.timestamp = fitTimestampToDate(lastTimestamp);
+    }
+
+    if (!profile) {
+      onMessage(offset, true);
+      continue;
+    }
+
+    if (profile.name === 'field_description') {
+      const description = message as FitFieldDescriptionMessage;
+      developerFieldDescriptions.set(`${description.developer_data_index}:${description.field_definition_number}`, description);
+    }
+
+    (messages[profile.name as keyof FitMessages] as Record<string, unknown>[]).push(message);
+    onMessage(offset, true);
+  }
+}
+
+/**
+ * Read a raw field value. Returns undefined when the value is invalid, a number
+ * for single values and an array for array fields.
+ */
+function readFieldValue(
+  bytes: Uint8Array,
+  view: DataView,
+  offset: number,
+  size: number,
+  baseType: FitBaseType,
+  littleEndian: boolean
+): number | string | number[] | undefined {
+  if (baseType.name === 'string') {
+    let length = 0;
+    while (length < size && bytes[offset + length] !== 0) length++;
+    return length > 0 ? textDecoder.decode(bytes.subarray(offset, offset + length)) : undefined;
+  }
+
+  const count = Math.floor(size / baseType.size);
+  if (count === 0) return undefined;
+
+  const values: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const value = readSingleValue(view, offset + i * baseType.size, baseType, littleEndian);
+    if (value !== undefined) values.push(value);
+  }
+
+  if (baseType.name === 'byte' && count > 1) {
+    // Byte arrays are only invalid when every byte is invalid
+    return values.length > 0 ? Array.from(bytes.subarray(offset, offset + size)) : undefined;
+  }
+  if (count === 1) return values[0];
+  return values.length > 0 ? values : undefined;
+}
+
+function readSingleValue(view: DataView, offset: number, baseType: FitBaseType, littleEndian: boolean): number | undefined {
+  let value: number | bigint;
+  switch (baseType.name) {
+    case 'sint8': value = view.getInt8(offset); break;
+    case 'enum':
+    case 'uint8':
+    case 'uint8z':
+    case 'byte': value = view.getUint8(offset); break;
+    case 'sint16': value = view.getInt16(offset, littleEndian); break;
+    case 'uint16':
+    case 'uint16z': value = view.getUint16(offset, littleEndian); break;
+    case 'sint32': value = view.getInt32(offset, littleEndian); break;
+    case 'uint32':
+    case 'uint32z': value = view.getUint32(offset, littleEndian); break;
+    case 'float32':
+      if (view.getUint32(offset, littleEndian) === baseType.invalid) return undefined;
+      return view.getFloat32(offset, littleEndian);
+    case 'float64':
+      if (view.getBigUint64(offset, littleEndian) === baseType.invalid) return undefined;
+      return view.getFloat64(offset, littleEndian);
+    case 'sint64': value = view.getBigInt64(offset, littleEndian); break;
+    case 'uint64':
+    case 'uint64z': value = view.getBigUint64(offset, littleEndian); break;
+    default: return undefined;
+  }
+  return value === baseType.invalid ? undefined : Number(value);
+}
+
+/**
+ * Convert a raw value according to the profile: scale/offset, semicircles to
+ * degrees, FIT timestamps to dates and enum values to their names
+ */
+function applyFieldProfile(raw: number | string | number[], field: FitFieldProfile): unknown {
+  if (typeof raw === 'string') return raw;
+  if (Array.isArray(raw)) {
+    return field.type === 'byte' ? raw : raw.map(value => applyFieldProfile(value, field));
+  }
+
+  if (field.type === 'date_time' || field.type === 'local_date_time') {
+    return fitTimestampToDate(raw);
+  }
+  if (field.units === 'semicircles') {
+    return raw * SEMICIRCLES_TO_DEGREES;
+  }
+
+  const enumType = FIT_TYPES[field.type];
+  if (enumType) {
+    return enumType.values[raw] ?? raw;
+  }
+
+  if (field.scale !== undefined || field.offset !== undefined) {
+    return raw / (field.scale ?? 1) - (field.offset ?? 0);
+  }
+  return raw;
+}
+
+function applyDeveloperFieldScale(raw: number | string | number[], description: FitFieldDescriptionMessage): unknown {
+  if (typeof raw === 'string') return raw;
+  const scale = description.scale ?? 1;
+  const offset = description.offset ?? 0;
+  if (scale === 1 && offset === 0) return raw;
+  return Array.isArray(raw) ? raw.map(value => value / scale - offset) : raw / scale - offset;
+}
@@ -0,0 +1,372 @@
+/**
+ * FIT Encoder
+ *
+ * The counterpart of `fitDecoder.ts`: writes typed FIT messages into a binary FIT
+ * file with a 14 byte header, header CRC and file CRC. Values are expected in the
+ * units the decoder produces (m, m/s, s, °C, degrees, `Date`, enum names), so a
+ * decoded file encodes back to the same values.
+ *
+ * Developer fields are written for every message property whose name matches the
+ * `field_name` of one of the field_description messages.
+ *
+ * @module fitEncoder
+ */
+
+import {
+  calculateFitCrc,
+  type FitFieldDescriptionMessage,
+  type FitFileHeader,
+  type FitMessage,
+  type FitMessages
+} from './fitDecoder';
+import {
+  FIT_BASE_TYPES,
+  FIT_EPOCH_OFFSET_SECONDS,
+  FIT_MESSAGES,
+  FIT_TYPES,
+  SEMICIRCLES_TO_DEGREES,
+  getBaseTypeByName,
+  getFieldBaseType,
+  getMessageNumber,
+  type FitBaseType,
+  type FitFieldProfile
+} from './fitProfile';
+
+export interface FitEncodeOptions {
+  /** Protocol version written to the header (default: 2.0) */
+  protocolVersion?: number;
+  /** Profile version written to the header (default: 21.32) */
+  profileVersion?: number;
+}
+
+type RawValue = number | string | number[];
+
+interface EncodedField {
+  number: number;
+  baseType: FitBaseType;
+  value: RawValue;
+  size: number;
+  /** Developer data index, only set for developer fields */
+  developerDataIndex?: number;
+}
+
+const HEADER_SIZE = 14;
+const DEFAULT_PROTOCOL_VERSION = 0x20;
+const DEFAULT_PROFILE_VERSION = 2132;
+const DEFINITION_MESSAGE_MASK = 0x40;
+const DEVELOPER_DATA_MASK = 0x20;
+const LOCAL_MESSAGE_TYPES = 16;
+const MAX_FIELD_SIZE = 255;
+
+/** Messages written before the timeline, in this order */
+const LEADING_MESSAGES: Array<keyof FitMessages> = [
+  'file_id', 'file_creator', 'developer_data_id', 'field_description', 'device_info', 'sport',
+  'workout', 'workout_step'
+];
+
+/** Messages written in timestamp order; the order breaks ties at equal timestamps */
+const TIMELINE_MESSAGES: Array<keyof FitMessages> = ['event', 'record', 'lap', 'session'];
+
+const textEncoder = new TextEncoder();
+
+/**
+ * Encode typed FIT messages into a binary FIT file
+ *
+ * Identification and developer messages come first, followed by events, records,
+ * laps and sessions in timestamp order, HRV messages and finally the activity.
+ * Fields that are absent or out of range for their base type are left out.
+ *
+ * @param messages - Messages in the units produced by the decoder
+ * @param options - Header versions
+ * @returns The FIT file content
+ *
+ * @example
+ * ```typescript
+ * const { messages } = decodeFit(bytes);
+ * messages.record = messages.record.filter(record => record.heart_rate !== undefined);
+ * const cleaned = encodeFit(messages);
+ * ```
+ */
+export function encodeFit(messages: FitMessages, options: FitEncodeOptions = {}): Uint8Array {
+  const developerFields = new Map<string, FitFieldDescriptionMessage>();
+  messages.field_description.forEach(description => {
+    if (description.field_name) developerFields.set(description.field_name, description);
+  });
+
+  const chunks: Uint8Array[] = [];
+  const localTypes = new Map<string, number>();
+  let nextLocalType = 0;
+
+  const writeMessage = (messageName: keyof FitMessages, message: FitMessage) => {
+    const messageNumber = getMessageNumber(messageName);
+    if (messageNumber === undefined) return;
+
+    const fields = encodeFields(message, messageNumber, developerFields);
+    if (fields.length === 0) return;
+
+    const definitionKey = `${messageNumber}:` + fields
+      .map(field => `${field.developerDataIndex ?? ''}/${field.number}/${field.size}/${field.baseType.id}`)
+      .join(',');
+    let localType = localTypes.get(definitionKey);
+    if (localType === undefined) {
+      // Reuse local message types round robin, dropping the definition previously bound to it
+      localType = nextLocalType;
+      nextLocalType = (nextLocalType + 1) % LOCAL_MESSAGE_TYPES;
+      for (const [key, type] of localTypes) {
+        if (type === localType) localTypes.delete(key);
+      }
+      localTypes.set(definitionKey, localType);
+      chunks.push(writeDefinition(localType, messageNumber, fields));
+    }
+    chunks.push(writeData(localType, fields));
+  };
+
+  LEADING_MESSAGES.forEach(name => messages[name].forEach(message => writeMessage(name, message)));
+
+  TIMELINE_MESSAGES
+    .flatMap((name, order) => messages[name].map((message: FitMessage) => ({ name, order, message })))
+    .sort((a, b) => timelineTime(a.message) - timelineTime(b.message) || a.order - b.order)
+    .forEach(({ name, message }) => writeMessage(name, message));
+
+  messages.hrv.forEach(message => writeMessage('hrv', message));
+  messages.activity.forEach(message => writeMessage('activity', message));
+
+  const dataSize = chunks.reduce((size, chunk) => size + chunk.length, 0);
+  const bytes = new Uint8Array(HEADER_SIZE + dataSize + 2);
+  bytes.set(writeHeader({
+    protocolVersion: options.protocolVersion ?? DEFAULT_PROTOCOL_VERSION,
+    profileVersion: options.profileVersion ?? DEFAULT_PROFILE_VERSION,
+    dataSize
+  }));
+
+  let offset = HEADER_SIZE;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+
+  const crc = calculateFitCrc(bytes, 0, offset);
+  bytes[offset] = crc & 0xFF;
+  bytes[offset + 1] = crc >> 8;
+  return bytes;
+}
+
+/**
+ * Write the 14 byte file header including its CRC
+ */
+function writeHeader(header: Pick<FitFileHeader, 'protocolVersion' | 'profileVersion' | 'dataSize'>): Uint8Array {
+  const bytes = new Uint8Array(HEADER_SIZE);
+  const view = new DataView(bytes.buffer);
+  bytes[0] = HEADER_SIZE;
+  bytes[1] = header.protocolVersion;
+  view.setUint16(2, header.profileVersion, true);
+  view.setUint32(4, header.dataSize, true);
+  bytes.set(textEncoder.encode('.FIT'), 8);
+  view.setUint16(12, calculateFitCrc(bytes, 0, 12), true);
+  return bytes;
+}
+
+function timelineTime(message: FitMessage & { start_time?: Date }): number {
+  return (message.timestamp ?? message.start_time)?.getTime() ?? Infinity;
+}
+
+/**
+ * Turn the message properties into raw field values, profile fields first
+ */
+function encodeFields(
+  message: FitMessage,
+  messageNumber: number,
+  developerFields: Map<string, FitFieldDescriptionMessage>
+): EncodedField[] {
+  const profile = FIT_MESSAGES[messageNumber];
+  const fields: EncodedField[] = [];
+  const profileFieldNames = new Set<string>();
+
+  for (const [number, field] of Object.entries(profile.fields)) {
+    profileFieldNames.add(field.name);
+    const baseType = getBaseTypeByName(getFieldBaseType(field));
+    const value = toRawValue(message[field.name], field, baseType);
+    if (value !== undefined) {
+      fields.push({ number: Number(number), baseType, value, size: valueSize(value, baseType) });
+    }
+  }
+
+  for (const [name, value] of Object.entries(message)) {
+    const description = developerFields.get(name);
+    if (profileFieldNames.has(name) || !description ||
+        description.developer_data_index === undefined || description.field_definition_number === undefined) {
+      continue;
+    }
+    const baseType = description.fit_base_type_id !== undefined ? FIT_BASE_TYPES[description.fit_base_type_id] : undefined;
+    if (!baseType) continue;
+
+    const rawValue = toRawNumber(value, baseType, description.scale ?? 1, description.offset ?? 0);
+    if (rawValue !== undefined) {
+      fields.push({
+        number: description.field_definition_number,
+        baseType,
+        value: rawValue,
+        size: valueSize(rawValue, baseType),
+        developerDataIndex: description.developer_data_index
+      });
+    }
+  }
+
+  return fields;
+}
+
+/**
+ * Convert a decoded value back to its raw representation: dates to FIT timestamps,
+ * degrees to semicircles, enum names to numbers and scale/offset reversed
+ */
+function toRawValue(value: unknown, field: FitFieldProfile, baseType: FitBaseType): RawValue | undefined {
+  if (value === undefined || value === null) return undefined;
+
+  if (Array.isArray(value)) {
+    const values = value
+      .map(item => toRawValue(item, { ...field, array: false }, baseType))
+      .filter((item): item is number => typeof item === 'number');
+    return values.length > 0 ? values : undefined;
+  }
+
+  if (baseType.name === 'string') {
+    return typeof value === 'string' && value.length > 0 ? value : undefined;
+  }
+
+  if (value instanceof Date) {
+    const seconds = Math.round(value.getTime() / 1000) - FIT_EPOCH_OFFSET_SECONDS;
+    return isEncodable(seconds, baseType) ? seconds : undefined;
+  }
+
+  const enumType = FIT_TYPES[field.type];
+  if (typeof value === 'string') {
+    const entry = enumType && Object.entries(enumType.values).find(([, name]) => name === value);
+    return entry ? Number(entry[0]) : undefined;
+  }
+
+  if (typeof value !== 'number') return undefined;
+  if (field.units === 'semicircles') {
+    return toRawNumber(value / SEMICIRCLES_TO_DEGREES, baseType, 1, 0);
+  }
+  return toRawNumber(value, baseType, field.scale ?? 1, field.offset ?? 0);
+}
+
+function toRawNumber(value: unknown, baseType: FitBaseType, scale: number, offset: number): RawValue | undefined {
+  if (Array.isArray(value)) {
+    const values = value
+      .map(item => toRawNumber(item, baseType, scale, offset))
+      .filter((item): item is number => typeof item === 'number');
+    return values.length > 0 ? values : undefined;
+  }
+  if (typeof value === 'string') {
+    return baseType.name === 'string' && value.length > 0 ? value : undefined;
+  }
+  if (typeof value !== 'number') return undefined;
+
+  const isFloat = baseType.name === 'float32' || baseType.name === 'float64';
+  const raw = isFloat ? (value + offset) * scale : Math.round((value + offset) * scale);
+  return isEncodable(raw, baseType) ? raw : undefined;
+}
+
+/**
+ * Check that a raw number fits the base type and isn't its invalid value
+ */
+function isEncodable(value: number, baseType: FitBaseType): boolean {
+  if (!Number.isFinite(value)) return false;
+  if (baseType.name === 'float32' || baseType.name === 'float64') return true;
+  if (value === Number(baseType.invalid)) return false;
+
+  const bits = baseType.size * 8;
+  const signed = baseType.name.startsWith('sint');
+  const min = signed ? -(2 ** (bits - 1)) : 0;
+  const max = signed ? 2 ** (bits - 1) - 1 : 2 ** bits - 1;
+  return value >= min && value <= max;
+}
+
+function valueSize(value: RawValue, baseType: FitBaseType): number {
+  if (typeof value === 'string') {
+    // Null terminated, within the maximum field size
+    return Math.min(textEncoder.encode(value).length + 1, MAX_FIELD_SIZE);
+  }
+  const count = Array.isArray(value) ? value.length : 1;
+  return Math.min(count, Math.floor(MAX_FIELD_SIZE / baseType.size)) * baseType.size;
+}
+
+function writeDefinition(localType: number, messageNumber: number, fields: EncodedField[]): Uint8Array {
+  const profileFields = fields.filter(field => field.developerDataIndex === undefined);
+  const developerFields = fields.filter(field => field.developerDataIndex !== undefined);
+  const hasDeveloperFields = developerFields.length > 0;
+
+  const bytes = new Uint8Array(6 + profileFields.length * 3 + (hasDeveloperFields ? 1 + developerFields.length * 3 : 0));
+  const view = new DataView(bytes.buffer);
+  bytes[0] = DEFINITION_MESSAGE_MASK | (hasDeveloperFields ? DEVELOPER_DATA_MASK : 0) | localType;
+  // Byte 1 is reserved, byte 2 selects little endian
+  view.setUint16(3, messageNumber, true);
+  bytes[5] = profileFields.length;
+
+  let offset = 6;
+  for (const field of profileFields) {
+    bytes.set([field.number, field.size, field.baseType.id], offset);
+    offset += 3;
+  }
+  if (hasDeveloperFields) {
+    bytes[offset++] = developerFields.length;
+    for (const field of developerFields) {
+      bytes.set([field.number, field.size, field.developerDataIndex!], offset);
+      offset += 3;
+    }
+  }
+  return bytes;
+}
+
+function writeData(localType: number, fields: EncodedField[]): Uint8Array {
+  // Profile fields are written before developer fields, matching the definition
+  const ordered = [
+    ...fields.filter(field => field.developerDataIndex === undefined),
+    ...fields.filter(field => field.developerDataIndex !== undefined)
+  ];
+  const bytes = new Uint8Array(1 + ordered.reduce((size, field) => size + field.size, 0));
+  const view = new DataView(bytes.buffer);
+  bytes[0] = localType;
+
+  let offset = 1;
+  for (const field of ordered) {
+    writeFieldValue(bytes, view, offset, field);
+    offset += field.size;
+  }
+  return bytes;
+}
+
+function writeFieldValue(bytes: Uint8Array, view: DataView, offset: number, field: EncodedField): void {
+  if (typeof field.value === 'string') {
+    // The rest of the field stays zero, which terminates the string
+    bytes.set(textEncoder.encode(field.value).subarray(0, field.size - 1), offset);
+    return;
+  }
+  const values = Array.isArray(field.value) ? field.value : [field.value];
+  const count = field.size / field.baseType.size;
+  for (let i = 0; i < count; i++) {
+    writeSingleValue(view, offset + i * field.baseType.size, field.baseType, values[i]);
+  }
+}
+
+function writeSingleValue(view: DataView, offset: number, baseType: FitBaseType, value: number): void {
+  switch (baseType.name) {
+    case 'sint8': view.setInt8(offset, value); break;
+    case 'enum':
+    case 'uint8':
+    case 'uint8z':
+    case 'byte': view.setUint8(offset, value); break;
+    case 'sint16': view.setInt16(offset, value, true); break;
+    case 'uint16':
+    case 'uint16z': view.setUint16(offset, value, true); break;
+    case 'sint32': view.setInt32(offset, value, true); break;
+    case 'uint32':
+    case 'uint32z': view.setUint32(offset, value, true); break;
+    case 'float32': view.setFloat32(offset, value, true); break;
+    case 'float64': view.setFloat64(offset, value, true); break;
+    case 'sint64': view.setBigInt64(offset, BigInt(value), true); break;
+    case 'uint64':
+    case 'uint64z': view.setBigUint64(offset, BigInt(value), true); break;
+  }
+}
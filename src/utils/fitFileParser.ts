@@ -1,271 +1,973 @@
-//@ts-ignore
-import  FitParser  from 'fit-file-parser';
+import {
+  createEmptyFitMessages,
+  decodeFit,
+  type FitActivityMessage,
+  type FitDecodeDiagnostics,
+  type FitDeveloperDataIdMessage,
+  type FitDeviceInfoMessage,
+  type FitEventMessage,
+  type FitFieldDescriptionMessage,
+  type FitFileHeader,
+  type FitFileIdMessage,
+  type FitHrvMessage,
+  type FitLapMessage,
+  type FitMessages,
+  type FitRecordMessage,
+  type FitSessionMessage,
+  type FitSportMessage,
+  type FitSummaryMessage,
+  type FitWorkoutMessage,
+  type FitWorkoutStepMessage
+} from './fitDecoder';
+import { type FitMergeReport } from './activityMerge';
+import { encodeFit } from './fitEncoder';
+import { FIT_TYPES } from './fitProfile';
+import { calculateDistance } from './geo';
+import { toGeoJSON } from './geoJsonExport';
+import { getSensorInventory } from './sensorInventory';
+import { convertMessageUnits, getPreferredFieldUnit, SI_UNITS, type UnitPreferences } from './units';
 /**
  * FIT File Parser
- * 
- * This module provides functions to parse FIT files using the fit-file-parser package
- .
- * 
+ *
+ * This module provides functions to parse FIT files with the native decoder in
+ * `fitDecoder.ts` and to arrange the decoded messages in the cascade structure
+ * (`activity.sessions[].laps[].records[]`) used throughout the app. TCX and GPX
+ * files are mapped onto the same message types so they end up in the same structure.
+ *
  * @module fitParser
  */
 
 
 
+/**
+ * A record message with the time offsets added while parsing
+ */
+export interface IFitRecord extends FitRecordMessage {
+  timestamp: Date;
+  /** Seconds since the first record */
+  elapsed_time: number;
+  /** Seconds since the first record, excluding timer pauses */
+  timer_time: number;
+}
+
+/**
+ * A lap with the records recorded during it
+ */
+export interface IFitLap extends FitLapMessage {
+  records: IFitRecord[];
+}
+
+/**
+ * A session with its laps
+ */
+export interface IFitSession extends FitSessionMessage {
+  laps: IFitLap[];
+}
+
+/**
+ * The activity message together with every message that belongs to the activity
+ */
+export interface IFitActivity extends FitActivityMessage {
+  sessions: IFitSession[];
+  events: FitEventMessage[];
+  hrv: FitHrvMessage[];
+  device_infos: FitDeviceInfoMessage[];
+  developer_data_ids: FitDeveloperDataIdMessage[];
+  field_descriptions: FitFieldDescriptionMessage[];
+  sports: FitSportMessage[];
+  /** The planned workout the activity was recorded from, if any */
+  workouts: FitWorkoutMessage[];
+  workout_steps: FitWorkoutStepMessage[];
+}
+
 /**
  * Represents parsed FIT file data
  */
 export interface IFitData {
-  /** File header information */
-  fileHeader?: {
-    protocolVersion: number;
-    profileVersion: number;
-    dataSize: number;
-    dataType: string;
-    crc: number;
-  };
-  /** Session data */
-  sessions?: Array<{
-    startTime: Date;
-    totalElapsedTime: number;
-    totalTimerTime: number;
-    totalDistance: number;
-    sport: string;
-    subSport?: string;
-    avgSpeed?: number;
-    maxSpeed?: number;
-    avgHeartRate?: number;
-    maxHeartRate?: number;
-    avgCadence?: number;
-    maxCadence?: number;
-    totalCalories?: number;
-    [key: string]: unknown;
-  }>;
-  /** Record data (GPS points, sensor data, etc.) */
-  records?: Array<{
-    timestamp: Date;
-    positionLat?: number;
-    positionLong?: number;
-    altitude?: number;
-    speed?: number;
-    heartRate?: number;
-    cadence?: number;
-    power?: number;
-    temperature?: number;
-    [key: string]: unknown;
-  }>;
-  /** Activity data */
-  activities?: Array<{
-    timestamp: Date;
-    totalTimerTime: number;
-    numSessions: number;
-    type: string;
-    event: string;
-    [key: string]: unknown;
-  }>;
-  /** Lap data */
-  laps?: Array<{
-    timestamp: Date;
-    startTime: Date;
-    totalElapsedTime: number;
-    totalTimerTime: number;
-    totalDistance: number;
-    avgSpeed?: number;
-    maxSpeed?: number;
-    avgHeartRate?: number;
-    maxHeartRate?: number;
-    [key: string]: unknown;
-  }>;
-  /** Events */
-  events?: Array<{
-    timestamp: Date;
-    event: string;
-    eventType: string;
-    data?: number;
-    [key: string]: unknown;
-  }>;
-  /** Device information */
-  deviceInfos?: Array<{
-    timestamp: Date;
-    manufacturer: string;
-    product: string;
-    serialNumber?: number;
-    softwareVersion?: string;
-    hardwareVersion?: string;
-    [key: string]: unknown;
-  }>;
-  /** Raw parsed data */
-  [key: string]: unknown;
+  protocolVersion: number;
+  profileVersion: number;
+  /** File identification (type, manufacturer, product, creation time) */
+  file_id?: FitFileIdMessage;
+  /** Activity with its sessions, laps and records */
+  activity: IFitActivity;
+  /** Units the speed, length and temperature fields were converted to */
+  units: FitParseOptions;
+  /** Diagnostics of files read with `recoverFitData` */
+  recovery?: FitRecoveryReport;
+  /** Sources and clock offsets of activities combined with `mergeActivities` */
+  merge?: FitMergeReport;
+}
+
+/**
+ * Diagnostics of a recovered file with the summaries that had to be rebuilt
+ */
+export interface FitRecoveryReport extends FitDecodeDiagnostics {
+  /** Laps calculated from records that no lap message covered */
+  rebuiltLaps: number;
+  /** Sessions calculated from laps that no session message covered */
+  rebuiltSessions: number;
 }
 
+/**
+ * Units speed, length and temperature fields are converted to while parsing. Data is
+ * parsed in SI units unless other units are asked for.
+ */
+export type FitParseOptions = UnitPreferences;
+
+const DEFAULT_PARSE_OPTIONS: FitParseOptions = SI_UNITS;
+
 /**
  * Parse FIT data from various input types
- * 
+ *
  * @param data - The FIT file data as ArrayBuffer, Uint8Array, or other binary format
+ * @param options - Units to convert speed, length and temperature fields to, SI by default
  * @returns Promise resolving to parsed FIT data
  */
-export function parseFitData(data: ArrayBuffer | Uint8Array | string): Promise<IFitData> {
+export function parseFitData(
+  data: ArrayBuffer | Uint8Array | string,
+  options: FitParseOptions = DEFAULT_PARSE_OPTIONS
+): Promise<IFitData> {
   return new Promise((resolve, reject) => {
     try {
-      const fitParser = new FitParser({
-        force: true,
-        speedUnit: 'km/h',
-        lengthUnit: 'km',
-        temperatureUnit: 'celsius',
-        elapsedRecordField: true,
-        mode: 'cascade'
-      });
-
-      // Handle different input types
-      let arrayBuffer: ArrayBuffer;
-      
-      if (data instanceof ArrayBuffer) {
-        // Already an ArrayBuffer
-        arrayBuffer = data;
-      } else if (data instanceof Uint8Array) {
-        // Convert Uint8Array to ArrayBuffer
-        arrayBuffer = data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength);
-      } else if (typeof data === 'string') {
-        // Convert string to ArrayBuffer (if it's base64 or similar)
-        const binaryString = window.atob(data);
-        const bytes = new Uint8Array(binaryString.length);
-        for (let i = 0; i < binaryString.length; i++) {
-          bytes[i] = binaryString.charCodeAt(i);
-        }
-        arrayBuffer = bytes.buffer;
-      } else {
-        throw new Error('Unsupported data type. Expected ArrayBuffer, Uint8Array, or base64 string');
-      }
-      
-      // Parse the data
-      fitParser.parse(arrayBuffer, (error: string | null, result: unknown) => {
-        if (error) {
-          reject(new Error(`Failed to parse FIT data: ${error}`));
-        } else {
-          resolve(result as IFitData);
-        }
-      });
+      const { header, messages } = decodeFit(toUint8Array(data));
+      resolve(buildFitData(header, messages, options));
     } catch (error) {
       reject(new Error(`Failed to parse FIT data: ${error instanceof Error ? error.message : String(error)}`));
     }
   });
 }
 
-
-
 /**
- * Extract summary information from parsed FIT data
- * 
- * @param fitData - Parsed FIT data
- * @returns Summary object with key metrics
- * 
+ * Parse a FIT file that may be truncated or corrupt
+ *
+ * Every complete message up to the point of corruption is kept. Records after the
+ * last lap message and laps after the last session message, which a device writes
+ * when the activity is saved, are summarized into rebuilt laps and sessions. The
+ * returned data carries a `recovery` report; intact files parse as with
+ * `parseFitData`.
+ *
+ * @param data - The FIT file data as ArrayBuffer, Uint8Array, or base64 string
+ * @param options - Units to convert speed, length and temperature fields to, SI by default
+ * @returns Promise resolving to the recovered data
+ *
  * @example
  * ```typescript
- * const fitData = await parseFitFile("activity.fit");
- * const summary = extractSummary(fitData);
- * console.log(`Activity: ${summary.sport}, Distance: ${summary.totalDistance} km`);
+ * const fitData = await recoverFitData(buffer);
+ * if (!fitData.recovery?.intact) {
+ *   console.log(`Decoding stopped at byte ${fitData.recovery?.failureOffset}`);
+ * }
  * ```
  */
-export function extractSummary(fitData: IFitData) {
-  // Handle both cascade mode (fitData.activity.sessions) and non-cascade mode (fitData.sessions)
-  interface CascadeActivity {
-    sessions?: Record<string, unknown>[];
-    records?: Record<string, unknown>[];
-    laps?: Record<string, unknown>[];
-    device_infos?: Record<string, unknown>[];
-    timestamp?: Date;
+export function recoverFitData(
+  data: ArrayBuffer | Uint8Array | string,
+  options: FitParseOptions = DEFAULT_PARSE_OPTIONS
+): Promise<IFitData> {
+  return new Promise((resolve, reject) => {
+    try {
+      const { header, messages, diagnostics } = decodeFit(toUint8Array(data), { recover: true });
+      resolve(buildRecoveredFitData(header, messages, diagnostics, options));
+    } catch (error) {
+      reject(new Error(`Failed to recover FIT data: ${error instanceof Error ? error.message : String(error)}`));
+    }
+  });
+}
+
+/**
+ * Rebuild the missing summaries of recovered messages and arrange them into the
+ * cascade structure
+ *
+ * @param header - File header of the decoded file
+ * @param messages - Messages decoded in recovery mode
+ * @param diagnostics - Diagnostics of the decoder
+ * @param options - Units to convert speed, length and temperature fields to, SI by default
+ * @returns Parsed FIT data with a recovery report
+ */
+export function buildRecoveredFitData(
+  header: Pick<FitFileHeader, 'protocolVersion' | 'profileVersion'>,
+  messages: FitMessages,
+  diagnostics: FitDecodeDiagnostics,
+  options: FitParseOptions = DEFAULT_PARSE_OPTIONS
+): IFitData {
+  const sport = String(messages.sport[messages.session.length]?.sport ??
+    messages.lap[messages.lap.length - 1]?.sport ?? 'generic');
+
+  const lastLapEnd = latestEnd(messages.lap);
+  const uncoveredRecords = messages.record.filter(record =>
+    record.timestamp && (lastLapEnd === undefined || record.timestamp > lastLapEnd));
+  const rebuiltLaps = uncoveredRecords.length > 0 ? [summarizeRecords(uncoveredRecords, sport)] : [];
+  messages.lap.push(...rebuiltLaps);
+
+  const lastSessionEnd = latestEnd(messages.session);
+  const uncoveredLaps = messages.lap.filter(lap =>
+    lap.start_time && (lastSessionEnd === undefined || lap.start_time >= lastSessionEnd));
+  const rebuiltSessions = uncoveredLaps.length > 0 ? [summarizeLaps(uncoveredLaps)] : [];
+  messages.session.push(...rebuiltSessions);
+
+  return {
+    ...buildFitData(header, messages, options),
+    recovery: {
+      ...diagnostics,
+      rebuiltLaps: rebuiltLaps.length,
+      rebuiltSessions: rebuiltSessions.length
+    }
+  };
+}
+
+/**
+ * Latest end of a list of lap or session messages: their timestamp, or the start
+ * plus the elapsed time
+ */
+function latestEnd(messages: FitSummaryMessage[]): Date | undefined {
+  const ends = messages
+    .map(message => message.timestamp ?? (message.start_time && message.total_elapsed_time !== undefined
+      ? new Date(message.start_time.getTime() + message.total_elapsed_time * 1000)
+      : undefined))
+    .filter((end): end is Date => end instanceof Date);
+  return ends.length > 0 ? new Date(Math.max(...ends.map(end => end.getTime()))) : undefined;
+}
+
+/**
+ * Convert the supported input types into bytes
+ */
+function toUint8Array(data: ArrayBuffer | Uint8Array | string): Uint8Array {
+  if (data instanceof ArrayBuffer) {
+    return new Uint8Array(data);
+  }
+  if (data instanceof Uint8Array) {
+    return data;
   }
-  
-  interface CascadeData extends IFitData {
-    activity?: CascadeActivity;
+  if (typeof data === 'string') {
+    // Convert string to bytes (if it's base64 or similar)
+    const binaryString = window.atob(data);
+    const bytes = new Uint8Array(binaryString.length);
+    for (let i = 0; i < binaryString.length; i++) {
+      bytes[i] = binaryString.charCodeAt(i);
+    }
+    return bytes;
   }
-  
-  const cascadeData = fitData as CascadeData;
-  const session = fitData.sessions?.[0] || cascadeData.activity?.sessions?.[0];
-  const activity = fitData.activities?.[0];
-  
-  // For records, check both locations
-  const records = fitData.records || cascadeData.activity?.records || [];
-  const laps = fitData.laps || cascadeData.activity?.laps || (session as Record<string, unknown>)?.laps || [];
-  const deviceInfos = fitData.deviceInfos || cascadeData.activity?.device_infos || [];
-  
-  // Get session data with proper type handling
-  const sessionData = session as Record<string, unknown> | undefined;
-  
+  throw new Error('Unsupported data type. Expected ArrayBuffer, Uint8Array, or base64 string');
+}
+
+/**
+ * Arrange decoded messages into the cascade structure
+ *
+ * Records get `elapsed_time` and `timer_time` (excluding timer pauses) and are
+ * assigned to laps by lap start time; laps are assigned to sessions the same way.
+ * Messages are expected in the profile units produced by the decoder.
+ *
+ * @param header - File header of the decoded file
+ * @param messages - Decoded messages
+ * @param options - Units to convert speed, length and temperature fields to, SI by default
+ * @returns Parsed FIT data
+ */
+export function buildFitData(
+  header: Pick<FitFileHeader, 'protocolVersion' | 'profileVersion'>,
+  messages: FitMessages,
+  options: FitParseOptions = DEFAULT_PARSE_OPTIONS
+): IFitData {
+  const converted = <T extends object>(list: T[]) => list.map(message => convertMessageUnits(message, options));
+  const records = addRecordTimes(converted(messages.record), messages.event);
+  const lapList = converted(messages.lap);
+  const sessionList = converted(messages.session);
+
+  // Files without lap or session messages still need a parent for their records
+  const lapMessages: FitLapMessage[] = lapList.length > 0 || records.length === 0
+    ? lapList
+    : [{ start_time: records[0].timestamp }];
+  const sessionMessages: FitSessionMessage[] = sessionList.length > 0 || lapMessages.length === 0
+    ? sessionList
+    : [{ start_time: lapMessages[0].start_time }];
+
+  const laps = assignByStartTime(lapMessages, records, (lap, lapRecords): IFitLap => ({ ...lap, records: lapRecords }));
+  const sessions = assignByStartTime(sessionMessages, laps, (session, sessionLaps): IFitSession => ({ ...session, laps: sessionLaps }), lap => lap.start_time);
+
   return {
-    sport: (sessionData?.sport as string) || 'unknown',
-    subSport: (sessionData?.sub_sport as string) || (sessionData?.subSport as string),
-    startTime: (sessionData?.start_time as Date) || (sessionData?.startTime as Date) || activity?.timestamp,
-    totalDistance: (sessionData?.total_distance as number) || (sessionData?.totalDistance as number) || 0,
-    totalElapsedTime: (sessionData?.total_elapsed_time as number) || (sessionData?.totalElapsedTime as number) || 0,
-    totalTimerTime: (sessionData?.total_timer_time as number) || (sessionData?.totalTimerTime as number) || 0,
-    avgSpeed: (sessionData?.enhanced_avg_speed as number) || (sessionData?.avg_speed as number) || (sessionData?.avgSpeed as number),
-    maxSpeed: (sessionData?.enhanced_max_speed as number) || (sessionData?.max_speed as number) || (sessionData?.maxSpeed as number),
-    avgHeartRate: (sessionData?.avg_heart_rate as number) || (sessionData?.avgHeartRate as number),
-    maxHeartRate: (sessionData?.max_heart_rate as number) || (sessionData?.maxHeartRate as number),
-    avgCadence: (sessionData?.avg_cadence as number) || (sessionData?.avgCadence as number),
-    maxCadence: (sessionData?.max_cadence as number) || (sessionData?.maxCadence as number),
-    totalCalories: (sessionData?.total_calories as number) || (sessionData?.totalCalories as number),
-    recordCount: records.length,
-    lapCount: Array.isArray(laps) ? laps.length : 0,
-    deviceInfo: Array.isArray(deviceInfos) && deviceInfos.length > 0 ? deviceInfos[0] : undefined
+    protocolVersion: header.protocolVersion,
+    profileVersion: header.profileVersion,
+    units: options,
+    file_id: messages.file_id[0],
+    activity: {
+      ...messages.activity[0],
+      sessions,
+      events: messages.event,
+      hrv: messages.hrv,
+      device_infos: messages.device_info,
+      developer_data_ids: messages.developer_data_id,
+      field_descriptions: messages.field_description,
+      sports: messages.sport,
+      workouts: messages.workout,
+      workout_steps: messages.workout_step
+    }
   };
 }
 
 /**
- * Convert parsed FIT data to GeoJSON format for mapping applications
- * 
- * @param fitData - Parsed FIT data
- * @returns GeoJSON FeatureCollection with track data
- * 
+ * Get the unit of a field after parsing, given its unit in the FIT profile
+ *
+ * @param fieldName - Message field name, e.g. `enhanced_speed`
+ * @param profileUnits - Units from the FIT profile, e.g. `m/s`
+ * @param options - Units the data was parsed with
+ * @returns The units the parsed values are in
+ */
+export function getParsedFieldUnit(fieldName: string, profileUnits: string | undefined, options: FitParseOptions): string | undefined {
+  if (profileUnits === 'semicircles') return 'degrees';
+  return getPreferredFieldUnit(fieldName, profileUnits, options);
+}
+
+/**
+ * Write parsed FIT data to a binary FIT file
+ *
+ * The inverse of `parseFitData`: the cascade is flattened back into messages and
+ * the units given in the options are converted back to the FIT profile units.
+ *
+ * @param fitData - Parsed FIT data, e.g. from `TrainingSession.toFitData()`
+ * @param options - Units the speed, length and temperature fields are in, by default
+ *   the units the data was parsed with
+ * @returns The FIT file content
+ *
+ * @example
+ * ```typescript
+ * const bytes = writeFitData(trainingSession.toFitData());
+ * const reopened = await parseFitData(bytes);
+ * ```
+ */
+export function writeFitData(fitData: IFitData, options: FitParseOptions = fitData.units): Uint8Array {
+  // Files imported from XML formats have no versions of their own
+  return encodeFit(toFitMessages(fitData, options), {
+    protocolVersion: fitData.protocolVersion || undefined,
+    profileVersion: fitData.profileVersion || undefined
+  });
+}
+
+/**
+ * Flatten the cascade structure back into messages in profile units
+ */
+function toFitMessages(fitData: IFitData, options: FitParseOptions): FitMessages {
+  const messages = createEmptyFitMessages();
+  const { sessions, events, hrv, device_infos, developer_data_ids, field_descriptions, sports, workouts, workout_steps, ...activity } = fitData.activity;
+  const profileUnits = <T extends object>(message: T): T => convertMessageUnits(message, options, true);
+
+  if (fitData.file_id) messages.file_id.push(fitData.file_id);
+  messages.developer_data_id.push(...developer_data_ids);
+  messages.field_description.push(...field_descriptions);
+  messages.device_info.push(...device_infos);
+  messages.sport.push(...sports);
+  messages.workout.push(...workouts);
+  messages.workout_step.push(...workout_steps);
+  messages.event.push(...events);
+  messages.hrv.push(...hrv);
+  messages.activity.push(activity);
+
+  for (const { laps, ...session } of sessions) {
+    messages.session.push(profileUnits(session));
+    for (const { records, ...lap } of laps) {
+      messages.lap.push(profileUnits(lap));
+      // elapsed_time and timer_time are derived while parsing and have no FIT field
+      messages.record.push(...records.map(({ elapsed_time, timer_time, ...record }) => profileUnits(record)));
+    }
+  }
+
+  return messages;
+}
+
+/**
+ * Add elapsed and timer time to records. Timer time leaves out the time between
+ * a timer stop event and the next timer start event.
+ */
+function addRecordTimes(records: FitRecordMessage[], events: FitEventMessage[]): IFitRecord[] {
+  const timedRecords = records.filter((record): record is FitRecordMessage & { timestamp: Date } => record.timestamp instanceof Date);
+  if (timedRecords.length === 0) return [];
+
+  const timerEvents = events
+    .filter(event => event.event === 'timer' && event.timestamp)
+    .sort((a, b) => a.timestamp!.getTime() - b.timestamp!.getTime());
+
+  const startTime = timedRecords[0].timestamp.getTime();
+  let pausedTime = 0;
+  let stoppedAt: number | undefined;
+  let eventIndex = 0;
+
+  return timedRecords.map(record => {
+    const time = record.timestamp.getTime();
+    while (eventIndex < timerEvents.length && timerEvents[eventIndex].timestamp!.getTime() <= time) {
+      const event = timerEvents[eventIndex];
+      const eventTime = event.timestamp!.getTime();
+      if (event.event_type === 'stop' || event.event_type === 'stop_all') {
+        stoppedAt = stoppedAt ?? eventTime;
+      } else if (event.event_type === 'start' && stoppedAt !== undefined) {
+        pausedTime += (eventTime - stoppedAt) / 1000;
+        stoppedAt = undefined;
+      }
+      eventIndex++;
+    }
+
+    const elapsed_time = (time - startTime) / 1000;
+    return { ...record, elapsed_time, timer_time: elapsed_time - pausedTime };
+  });
+}
+
+/**
+ * Assign children to parents by start time. A child belongs to the last parent
+ * starting at or before it; children before the first parent go to the first one.
+ */
+function assignByStartTime<P extends { start_time?: Date }, C, R>(
+  parents: P[],
+  children: C[],
+  combine: (parent: P, children: C[]) => R,
+  childTime: (child: C) => Date | undefined = child => (child as { timestamp?: Date }).timestamp
+): R[] {
+  const buckets: C[][] = parents.map(() => []);
+  let parentIndex = 0;
+
+  for (const child of children) {
+    const time = childTime(child)?.getTime();
+    if (time !== undefined) {
+      while (parentIndex + 1 < parents.length &&
+             (parents[parentIndex + 1].start_time?.getTime() ?? Infinity) <= time) {
+        parentIndex++;
+      }
+    }
+    buckets[parentIndex]?.push(child);
+  }
+
+  return parents.map((parent, index) => combine(parent, buckets[index]));
+}
+
+/** XML based formats carry no FIT protocol or profile version */
+const XML_FILE_HEADER = { protocolVersion: 0, profileVersion: 0 };
+
+const TCX_SPORTS: Record<string, string> = {
+  Running: 'running',
+  Biking: 'cycling',
+  Other: 'generic'
+};
+
+const TCX_INTENSITIES: Record<string, string> = {
+  Active: 'active',
+  Resting: 'rest'
+};
+
+const TCX_LAP_TRIGGERS: Record<string, string> = {
+  Manual: 'manual',
+  Distance: 'distance',
+  Location: 'position_marked',
+  Time: 'time'
+};
+
+/**
+ * Parse Garmin TCX (Training Center XML) data into the same structure as FIT data
+ *
+ * Every `<Activity>` becomes a session, every `<Lap>` a lap and every `<Trackpoint>`
+ * a record. Speed, power and run cadence are read from the `TPX` trackpoint extension,
+ * lap averages from the `LX` lap extension.
+ *
+ * @param data - The TCX file as text or bytes
+ * @param options - Units to convert speed, length and temperature fields to, SI by default
+ * @returns Promise resolving to parsed data in the FIT cascade structure
+ *
  * @example
  * ```typescript
- * const fitData = await parseFitFile("activity.fit");
- * const geoJson = toGeoJSON(fitData);
- * // Use with mapping libraries like Leaflet or MapBox
+ * const tcxData = await parseTcxData(await file.text());
+ * const session = new TrainingSession(tcxData);
  * ```
  */
-export function toGeoJSON(fitData: IFitData) {
-  const coordinates: number[][] = [];
-  const properties: Array<Record<string, unknown>> = [];
-
-  fitData.records?.forEach(record => {
-    if (record.positionLat && record.positionLong) {
-      coordinates.push([record.positionLong, record.positionLat]);
-      properties.push({
-        timestamp: record.timestamp,
-        altitude: record.altitude,
-        speed: record.speed,
-        heartRate: record.heartRate,
-        cadence: record.cadence,
-        power: record.power,
-        temperature: record.temperature
+export function parseTcxData(
+  data: ArrayBuffer | Uint8Array | string,
+  options: FitParseOptions = DEFAULT_PARSE_OPTIONS
+): Promise<IFitData> {
+  return new Promise((resolve, reject) => {
+    try {
+      const document = parseXml(toText(data));
+      resolve(buildFitData(XML_FILE_HEADER, readTcxMessages(document), options));
+    } catch (error) {
+      reject(new Error(`Failed to parse TCX data: ${error instanceof Error ? error.message : String(error)}`));
+    }
+  });
+}
+
+/**
+ * Map the activities of a TCX document onto FIT messages in profile units
+ */
+function readTcxMessages(document: Document): FitMessages {
+  const messages = createEmptyFitMessages();
+  const activities = Array.from(document.getElementsByTagNameNS('*', 'Activity'));
+  if (activities.length === 0) {
+    throw new Error('No activities found in TCX data');
+  }
+
+  for (const activity of activities) {
+    const sport = TCX_SPORTS[activity.getAttribute('Sport') ?? ''] ?? 'generic';
+    const laps = childElements(activity, 'Lap').map(lap => {
+      const records = childElements(lap, 'Track')
+        .flatMap(track => childElements(track, 'Trackpoint'))
+        .map(readTcxTrackpoint)
+        .filter(record => record.timestamp !== undefined);
+      messages.record.push(...records);
+      return readTcxLap(lap, sport, records);
+    });
+    messages.lap.push(...laps);
+    messages.session.push(summarizeLaps(laps, parseDate(childText(activity, 'Id'))));
+  }
+
+  addFileMessages(messages, childText(activities[0], 'Creator', 'Name'));
+  return messages;
+}
+
+/**
+ * Add the file_id and activity messages a FIT device writes, based on the sessions
+ */
+function addFileMessages(messages: FitMessages, productName: string | undefined, timeCreated?: Date): void {
+  messages.file_id.push(withoutUndefined({
+    type: 'activity',
+    product_name: productName,
+    time_created: timeCreated ?? messages.session[0]?.start_time
+  }));
+  messages.activity.push(withoutUndefined({
+    timestamp: messages.session[messages.session.length - 1]?.timestamp,
+    num_sessions: messages.session.length,
+    total_timer_time: messages.session.reduce((sum, session) => sum + (session.total_timer_time ?? 0), 0)
+  }));
+}
+
+function readTcxLap(lap: Element, sport: string, records: FitRecordMessage[]): FitLapMessage {
+  const start_time = parseDate(lap.getAttribute('StartTime')) ?? records[0]?.timestamp;
+  const total_timer_time = childNumber(lap, 'TotalTimeSeconds');
+  const total_distance = childNumber(lap, 'DistanceMeters');
+  const end_time = records[records.length - 1]?.timestamp ??
+    (start_time && total_timer_time !== undefined ? new Date(start_time.getTime() + total_timer_time * 1000) : undefined);
+
+  return withoutUndefined({
+    timestamp: end_time,
+    start_time,
+    sport,
+    total_elapsed_time: start_time && end_time ? (end_time.getTime() - start_time.getTime()) / 1000 : total_timer_time,
+    total_timer_time,
+    total_distance,
+    total_calories: childNumber(lap, 'Calories'),
+    avg_speed: childNumber(lap, 'Extensions', 'LX', 'AvgSpeed') ??
+      (total_distance !== undefined && total_timer_time ? total_distance / total_timer_time : undefined),
+    max_speed: childNumber(lap, 'MaximumSpeed'),
+    avg_heart_rate: childNumber(lap, 'AverageHeartRateBpm', 'Value'),
+    max_heart_rate: childNumber(lap, 'MaximumHeartRateBpm', 'Value'),
+    avg_cadence: childNumber(lap, 'Cadence') ?? childNumber(lap, 'Extensions', 'LX', 'AvgRunCadence'),
+    max_cadence: childNumber(lap, 'Extensions', 'LX', 'MaxBikeCadence') ?? childNumber(lap, 'Extensions', 'LX', 'MaxRunCadence'),
+    avg_power: childNumber(lap, 'Extensions', 'LX', 'AvgWatts'),
+    max_power: childNumber(lap, 'Extensions', 'LX', 'MaxWatts'),
+    intensity: TCX_INTENSITIES[childText(lap, 'Intensity') ?? ''],
+    lap_trigger: TCX_LAP_TRIGGERS[childText(lap, 'TriggerMethod') ?? '']
+  });
+}
+
+function readTcxTrackpoint(trackpoint: Element): FitRecordMessage {
+  const speed = childNumber(trackpoint, 'Extensions', 'TPX', 'Speed');
+  return withoutUndefined({
+    timestamp: parseDate(childText(trackpoint, 'Time')),
+    position_lat: childNumber(trackpoint, 'Position', 'LatitudeDegrees'),
+    position_long: childNumber(trackpoint, 'Position', 'LongitudeDegrees'),
+    altitude: childNumber(trackpoint, 'AltitudeMeters'),
+    distance: childNumber(trackpoint, 'DistanceMeters'),
+    heart_rate: childNumber(trackpoint, 'HeartRateBpm', 'Value'),
+    cadence: childNumber(trackpoint, 'Cadence') ?? childNumber(trackpoint, 'Extensions', 'TPX', 'RunCadence'),
+    // FIT devices record both; the chart defaults to enhanced_speed
+    speed,
+    enhanced_speed: speed,
+    power: childNumber(trackpoint, 'Extensions', 'TPX', 'Watts')
+  });
+}
+
+const GPX_SPORT_ALIASES: Record<string, string> = {
+  biking: 'cycling',
+  ride: 'cycling',
+  run: 'running',
+  walk: 'walking',
+  hike: 'hiking',
+  canoeing: 'paddling',
+  kayak: 'kayaking'
+};
+
+/**
+ * Parse GPX 1.1 data into the same structure as FIT data
+ *
+ * Every `<trk>` becomes a session and every `<trkseg>` a lap. Heart rate, cadence and
+ * temperature are read from the Garmin `TrackPointExtension`. GPX has no speed or
+ * distance, so both are derived from the positions, and the gap between two track
+ * segments is recorded as a timer pause. Lap and session summaries are calculated
+ * from the records.
+ *
+ * @param data - The GPX file as text or bytes
+ * @param options - Units to convert speed, length and temperature fields to, SI by default
+ * @returns Promise resolving to parsed data in the FIT cascade structure
+ *
+ * @example
+ * ```typescript
+ * const gpxData = await parseGpxData(await file.text());
+ * const session = new TrainingSession(gpxData);
+ * console.log(session.sessionTextSummary());
+ * ```
+ */
+export function parseGpxData(
+  data: ArrayBuffer | Uint8Array | string,
+  options: FitParseOptions = DEFAULT_PARSE_OPTIONS
+): Promise<IFitData> {
+  return new Promise((resolve, reject) => {
+    try {
+      const document = parseXml(toText(data));
+      resolve(buildFitData(XML_FILE_HEADER, readGpxMessages(document), options));
+    } catch (error) {
+      reject(new Error(`Failed to parse GPX data: ${error instanceof Error ? error.message : String(error)}`));
+    }
+  });
+}
+
+/**
+ * Map the tracks of a GPX document onto FIT messages in profile units
+ */
+function readGpxMessages(document: Document): FitMessages {
+  const messages = createEmptyFitMessages();
+  const gpx = document.documentElement;
+
+  for (const track of childElements(gpx, 'trk')) {
+    const sport = toFitSport(childText(track, 'type'));
+    let distance = 0;
+
+    const laps = childElements(track, 'trkseg').map(segment => {
+      const records = childElements(segment, 'trkpt')
+        .map(readGpxTrackpoint)
+        .filter(record => record.timestamp !== undefined);
+
+      records.forEach((record, index) => {
+        const previous = records[index - 1];
+        if (previous?.position_lat !== undefined && previous.position_long !== undefined &&
+            record.position_lat !== undefined && record.position_long !== undefined) {
+          const step = calculateDistance(previous.position_lat, previous.position_long, record.position_lat, record.position_long);
+          const seconds = (record.timestamp!.getTime() - previous.timestamp!.getTime()) / 1000;
+          distance += step;
+          if (seconds > 0) {
+            // FIT devices record both; the chart defaults to enhanced_speed
+            record.speed = step / seconds;
+            record.enhanced_speed = record.speed;
+          }
+        }
+        record.distance = distance;
       });
+
+      messages.record.push(...records);
+      return summarizeRecords(records, sport);
+    }).filter(lap => lap.start_time !== undefined);
+
+    // The time between two segments is a pause, like a stopped timer on a device
+    laps.slice(1).forEach((lap, index) => {
+      messages.event.push(
+        { timestamp: laps[index].timestamp, event: 'timer', event_type: 'stop_all' },
+        { timestamp: lap.start_time, event: 'timer', event_type: 'start' }
+      );
+    });
+
+    if (laps.length > 0) {
+      messages.lap.push(...laps);
+      messages.session.push(summarizeLaps(laps));
     }
+  }
+
+  if (messages.record.length === 0) {
+    throw new Error('No track points found in GPX data');
+  }
+
+  addFileMessages(messages, gpx.getAttribute('creator') ?? undefined, parseDate(childText(gpx, 'metadata', 'time')));
+  return messages;
+}
+
+function readGpxTrackpoint(trackpoint: Element): FitRecordMessage {
+  const extension = (name: string) => childNumber(trackpoint, 'extensions', 'TrackPointExtension', name);
+  return withoutUndefined({
+    timestamp: parseDate(childText(trackpoint, 'time')),
+    position_lat: parseNumber(trackpoint.getAttribute('lat')),
+    position_long: parseNumber(trackpoint.getAttribute('lon')),
+    altitude: childNumber(trackpoint, 'ele'),
+    heart_rate: extension('hr'),
+    cadence: extension('cad'),
+    temperature: extension('atemp') ?? extension('wtemp')
   });
+}
+
+/**
+ * Map a free text GPX track type onto a FIT sport name
+ */
+function toFitSport(type: string | undefined): string {
+  const name = type?.toLowerCase().replace(/[\s-]+/g, '_') ?? '';
+  return GPX_SPORT_ALIASES[name] ??
+    (Object.values(FIT_TYPES.sport.values).includes(name) ? name : 'generic');
+}
+
+/**
+ * Build a lap message from its records, for formats without lap summaries and for
+ * laps whose records changed
+ *
+ * Timer time is taken from the records' `timer_time` when they have it, otherwise
+ * it equals the elapsed time. Records are expected in SI units.
+ *
+ * @param records - Records of the lap
+ * @param sport - Sport of the lap
+ * @returns The lap message
+ */
+export function summarizeRecords(records: Array<FitRecordMessage & { timer_time?: number }>, sport: string): FitLapMessage {
+  const values = (field: keyof FitRecordMessage) =>
+    records.map(record => record[field]).filter((value): value is number => typeof value === 'number');
+  const mean = (field: keyof FitRecordMessage) => {
+    const fieldValues = values(field);
+    return fieldValues.length > 0 ? fieldValues.reduce((total, value) => total + value, 0) / fieldValues.length : undefined;
+  };
+  const max = (field: keyof FitRecordMessage) => {
+    const fieldValues = values(field);
+    return fieldValues.length > 0 ? Math.max(...fieldValues) : undefined;
+  };
+
+  const start_time = records[0]?.timestamp;
+  const timestamp = records[records.length - 1]?.timestamp;
+  const total_elapsed_time = start_time && timestamp ? (timestamp.getTime() - start_time.getTime()) / 1000 : undefined;
+  const firstTimerTime = records[0]?.timer_time;
+  const lastTimerTime = records[records.length - 1]?.timer_time;
+  const total_timer_time = firstTimerTime !== undefined && lastTimerTime !== undefined
+    ? lastTimerTime - firstTimerTime
+    : total_elapsed_time;
+  const distances = values('distance');
+  const total_distance = distances.length > 0 ? distances[distances.length - 1] - distances[0] : undefined;
+
+  let total_ascent = 0;
+  let total_descent = 0;
+  const altitudes = values('altitude').length > 0 ? values('altitude') : values('enhanced_altitude');
+  for (let i = 1; i < altitudes.length; i++) {
+    const change = altitudes[i] - altitudes[i - 1];
+    if (change > 0) {
+      total_ascent += change;
+    } else {
+      total_descent -= change;
+    }
+  }
+
+  const avg_heart_rate = mean('heart_rate');
+  const avg_cadence = mean('cadence');
+
+  const avg_power = mean('power');
+
+  // Strokes are counted from the stroke rate each record holds until the next one
+  const strokeRates = records.slice(1).map((record, index) => {
+    const previous = records[index];
+    const rate = previous['stroke rate'];
+    const seconds = typeof record.timer_time === 'number' && typeof previous.timer_time === 'number'
+      ? record.timer_time - previous.timer_time
+      : record.timestamp && previous.timestamp ? (record.timestamp.getTime() - previous.timestamp.getTime()) / 1000 : 0;
+    return typeof rate === 'number' ? rate * seconds / 60 : 0;
+  });
+  const hasBoatFields = values('stroke rate').length > 0 || values('watt').length > 0;
+
+  return withoutUndefined({
+    timestamp,
+    start_time,
+    sport,
+    total_elapsed_time,
+    total_timer_time,
+    total_distance,
+    avg_speed: total_distance !== undefined && total_timer_time ? total_distance / total_timer_time : undefined,
+    // FIT devices often record enhanced_speed only
+    max_speed: max('speed') ?? max('enhanced_speed'),
+    avg_heart_rate: avg_heart_rate !== undefined ? Math.round(avg_heart_rate) : undefined,
+    max_heart_rate: max('heart_rate'),
+    avg_cadence: avg_cadence !== undefined ? Math.round(avg_cadence) : undefined,
+    max_cadence: max('cadence'),
+    avg_power: avg_power !== undefined ? Math.round(avg_power) : undefined,
+    max_power: max('power'),
+    avg_temperature: mean('temperature'),
+    max_temperature: max('temperature'),
+    total_ascent: altitudes.length > 1 ? total_ascent : undefined,
+    total_descent: altitudes.length > 1 ? total_descent : undefined,
+    // Boat computers record power and stroke rate in developer fields and write
+    // their summaries to developer fields of the laps and sessions
+    'average watt': mean('watt'),
+    'max watt': max('watt'),
+    'stroke rate avg': mean('stroke rate'),
+    'stroke rate max': max('stroke rate'),
+    'total strokes': values('stroke rate').length > 0 ? Math.round(strokeRates.reduce((total, strokes) => total + strokes, 0)) : undefined,
+    'avg Meter/S': hasBoatFields && total_distance !== undefined && total_timer_time ? total_distance / total_timer_time : undefined
+  });
+}
+
+/**
+ * Build a session message from its laps: totals are summed, maxima taken over all
+ * laps and averages weighted by lap timer time.
+ *
+ * @param laps - Laps of the session
+ * @param start_time - Start of the session, by default the start of the first lap
+ * @returns The session message
+ */
+export function summarizeLaps(laps: FitLapMessage[], start_time = laps[0]?.start_time): FitSessionMessage {
+  const values = (field: keyof FitSummaryMessage) =>
+    laps.map(lap => lap[field]).filter((value): value is number => typeof value === 'number');
+  const sum = (field: keyof FitSummaryMessage) => {
+    const fieldValues = values(field);
+    return fieldValues.length > 0 ? fieldValues.reduce((total, value) => total + value, 0) : undefined;
+  };
+  const max = (field: keyof FitSummaryMessage) => {
+    const fieldValues = values(field);
+    return fieldValues.length > 0 ? Math.max(...fieldValues) : undefined;
+  };
+  const weightedAverage = (field: keyof FitSummaryMessage) => {
+    const weighted = laps.filter(lap => typeof lap[field] === 'number' && lap.total_timer_time);
+    const weight = weighted.reduce((total, lap) => total + lap.total_timer_time!, 0);
+    return weight > 0
+      ? weighted.reduce((total, lap) => total + (lap[field] as number) * lap.total_timer_time!, 0) / weight
+      : undefined;
+  };
+  // Heart rate and cadence averages are whole numbers in FIT summaries
+  const roundedAverage = (field: keyof FitSummaryMessage) => {
+    const average = weightedAverage(field);
+    return average !== undefined ? Math.round(average) : undefined;
+  };
+
+  const timestamp = laps[laps.length - 1]?.timestamp;
+  const total_timer_time = sum('total_timer_time');
+  const total_distance = sum('total_distance');
+
+  return withoutUndefined({
+    timestamp,
+    start_time,
+    sport: laps[0]?.sport,
+    num_laps: laps.length,
+    total_elapsed_time: start_time && timestamp ? (timestamp.getTime() - start_time.getTime()) / 1000 : sum('total_elapsed_time'),
+    total_timer_time,
+    total_distance,
+    total_calories: sum('total_calories'),
+    total_ascent: sum('total_ascent'),
+    total_descent: sum('total_descent'),
+    avg_speed: total_distance !== undefined && total_timer_time ? total_distance / total_timer_time : undefined,
+    max_speed: max('max_speed'),
+    avg_heart_rate: roundedAverage('avg_heart_rate'),
+    max_heart_rate: max('max_heart_rate'),
+    avg_cadence: roundedAverage('avg_cadence'),
+    max_cadence: max('max_cadence'),
+    avg_power: weightedAverage('avg_power'),
+    max_power: max('max_power'),
+    avg_temperature: weightedAverage('avg_temperature'),
+    max_temperature: max('max_temperature'),
+    'average watt': weightedAverage('average watt'),
+    'max watt': max('max watt'),
+    'stroke rate avg': weightedAverage('stroke rate avg'),
+    'stroke rate max': max('stroke rate max'),
+    'total strokes': sum('total strokes'),
+    'avg Meter/S': laps.some(lap => typeof lap['avg Meter/S'] === 'number') && total_distance !== undefined && total_timer_time
+      ? total_distance / total_timer_time
+      : undefined
+  });
+}
+
+/**
+ * Decode text input, bytes are read as UTF-8
+ */
+function toText(data: ArrayBuffer | Uint8Array | string): string {
+  return typeof data === 'string' ? data : new TextDecoder('utf-8').decode(data);
+}
+
+function parseXml(text: string): Document {
+  const document = new DOMParser().parseFromString(text, 'application/xml');
+  const parserError = document.getElementsByTagName('parsererror')[0];
+  if (parserError) {
+    throw new Error(`Invalid XML: ${parserError.textContent?.trim()}`);
+  }
+  return document;
+}
+
+/**
+ * Child elements by local name, so namespace prefixes (`ns3:TPX`) don't matter
+ */
+function childElements(parent: Element, name: string): Element[] {
+  return Array.from(parent.children).filter(child => child.localName === name);
+}
+
+/**
+ * Text of the element found by following a path of child element names
+ */
+function childText(parent: Element, ...path: string[]): string | undefined {
+  let element: Element | undefined = parent;
+  for (const name of path) {
+    element = element && childElements(element, name)[0];
+  }
+  return element?.textContent?.trim() || undefined;
+}
+
+function childNumber(parent: Element, ...path: string[]): number | undefined {
+  return parseNumber(childText(parent, ...path));
+}
+
+function parseNumber(text: string | null | undefined): number | undefined {
+  const value = Number.parseFloat(text ?? '');
+  return Number.isFinite(value) ? value : undefined;
+}
+
+function parseDate(text: string | null | undefined): Date | undefined {
+  const date = text ? new Date(text) : undefined;
+  return date && !Number.isNaN(date.getTime()) ? date : undefined;
+}
+
+/**
+ * Drop fields without a value, so absent data doesn't show up as an available field
+ */
+function withoutUndefined<T extends object>(message: T): T {
+  return Object.fromEntries(Object.entries(message).filter(([, value]) => value !== undefined)) as T;
+}
+
+
+
+/**
+ * Extract summary information from parsed FIT data
+ *
+ * @param fitData - Parsed FIT data
+ * @param sessionIndex - Session to summarize, for multi-session files
+ * @returns Summary object with key metrics
+ *
+ * @example
+ * ```typescript
+ * const fitData = await parseFitData(arrayBuffer);
+ * const summary = extractSummary(fitData);
+ * console.log(`Activity: ${summary.sport}, Distance: ${summary.totalDistance} km`);
+ * ```
+ */
+export function extractSummary(fitData: IFitData, sessionIndex: number = 0) {
+  const session = fitData.activity.sessions[sessionIndex];
+  const laps = session?.laps ?? [];
+  const records = laps.flatMap(lap => lap.records);
+  const deviceInfos = fitData.activity.device_infos;
 
   return {
-    type: "FeatureCollection",
-    features: [
-      {
-        type: "Feature",
-        geometry: {
-          type: "LineString",
-          coordinates
-        },
-        properties: {
-          sport: fitData.sessions?.[0]?.sport,
-          totalDistance: fitData.sessions?.[0]?.totalDistance,
-          startTime: fitData.sessions?.[0]?.startTime,
-          pointProperties: properties
-        }
-      }
-    ]
+    sport: session?.sport ?? 'unknown',
+    subSport: session?.sub_sport,
+    startTime: session?.start_time ?? fitData.activity.timestamp,
+    totalDistance: session?.total_distance ?? 0,
+    totalElapsedTime: session?.total_elapsed_time ?? 0,
+    totalTimerTime: session?.total_timer_time ?? 0,
+    avgSpeed: session?.enhanced_avg_speed ?? session?.avg_speed,
+    maxSpeed: session?.enhanced_max_speed ?? session?.max_speed,
+    avgHeartRate: session?.avg_heart_rate,
+    maxHeartRate: session?.max_heart_rate,
+    avgCadence: session?.avg_cadence,
+    maxCadence: session?.max_cadence,
+    totalCalories: session?.total_calories,
+    recordCount: records.length,
+    lapCount: laps.length,
+    deviceInfo: deviceInfos.length > 0 ? deviceInfos[0] : undefined,
+    devices: getSensorInventory(fitData)
   };
 }
 
+// GeoJSON export lives in its own module, re-exported for existing imports
+export { toGeoJSON };
+
 // Export default object with all functions for convenience
 export default {
   parseFitData,
+  recoverFitData,
+  parseTcxData,
+  parseGpxData,
+  writeFitData,
   extractSummary,
   toGeoJSON
-};
\ No newline at end of file
+};
@@ -0,0 +1,558 @@
+/**
+ * FIT Profile
+ *
+ * The subset of the Garmin FIT profile this app understands: base types, the enum
+ * types referenced by message fields and the field layout of every message the
+ * decoder turns into typed objects. Values follow the official FIT SDK profile
+ * (Profile.xlsx); messages or fields not listed here are skipped while decoding.
+ *
+ * @module fitProfile
+ */
+
+/**
+ * Names of the FIT base types
+ */
+export type FitBaseTypeName =
+  | 'enum' | 'sint8' | 'uint8' | 'sint16' | 'uint16' | 'sint32' | 'uint32'
+  | 'string' | 'float32' | 'float64' | 'uint8z' | 'uint16z' | 'uint32z'
+  | 'byte' | 'sint64' | 'uint64' | 'uint64z';
+
+/**
+ * Description of a FIT base type as it is stored in a definition message
+ */
+export interface FitBaseType {
+  name: FitBaseTypeName;
+  /** Base type number including the endian flag (e.g. 0x84 for uint16) */
+  id: number;
+  /** Size of a single value in bytes */
+  size: number;
+  /** Raw value marking an invalid (absent) field */
+  invalid: number | bigint;
+}
+
+export const FIT_BASE_TYPES: Record<number, FitBaseType> = {
+  0x00: { name: 'enum', id: 0x00, size: 1, invalid: 0xFF },
+  0x01: { name: 'sint8', id: 0x01, size: 1, invalid: 0x7F },
+  0x02: { name: 'uint8', id: 0x02, size: 1, invalid: 0xFF },
+  0x83: { name: 'sint16', id: 0x83, size: 2, invalid: 0x7FFF },
+  0x84: { name: 'uint16', id: 0x84, size: 2, invalid: 0xFFFF },
+  0x85: { name: 'sint32', id: 0x85, size: 4, invalid: 0x7FFFFFFF },
+  0x86: { name: 'uint32', id: 0x86, size: 4, invalid: 0xFFFFFFFF },
+  0x07: { name: 'string', id: 0x07, size: 1, invalid: 0x00 },
+  0x88: { name: 'float32', id: 0x88, size: 4, invalid: 0xFFFFFFFF },
+  0x89: { name: 'float64', id: 0x89, size: 8, invalid: 0xFFFFFFFFFFFFFFFFn },
+  0x0A: { name: 'uint8z', id: 0x0A, size: 1, invalid: 0x00 },
+  0x8B: { name: 'uint16z', id: 0x8B, size: 2, invalid: 0x0000 },
+  0x8C: { name: 'uint32z', id: 0x8C, size: 4, invalid: 0x00000000 },
+  0x0D: { name: 'byte', id: 0x0D, size: 1, invalid: 0xFF },
+  0x8E: { name: 'sint64', id: 0x8E, size: 8, invalid: 0x7FFFFFFFFFFFFFFFn },
+  0x8F: { name: 'uint64', id: 0x8F, size: 8, invalid: 0xFFFFFFFFFFFFFFFFn },
+  0x90: { name: 'uint64z', id: 0x90, size: 8, invalid: 0x0000000000000000n }
+};
+
+/**
+ * Look up a base type by name
+ */
+export function getBaseTypeByName(name: FitBaseTypeName): FitBaseType {
+  const baseType = Object.values(FIT_BASE_TYPES).find(type => type.name === name);
+  if (!baseType) {
+    throw new Error(`Unknown FIT base type "${name}"`);
+  }
+  return baseType;
+}
+
+/**
+ * An enum type from the profile: the base type it is stored as and its named values
+ */
+export interface FitEnumType {
+  baseType: FitBaseTypeName;
+  values: Record<number, string>;
+}
+
+/**
+ * Enum types referenced by the message profiles below. A raw value without a
+ * name in `values` is kept as its number.
+ */
+export const FIT_TYPES: Record<string, FitEnumType> = {
+  file: {
+    baseType: 'enum',
+    values: {
+      1: 'device', 2: 'settings', 3: 'sport', 4: 'activity', 5: 'workout', 6: 'course',
+      7: 'schedules', 9: 'weight', 10: 'totals', 11: 'goals', 14: 'blood_pressure',
+      15: 'monitoring_a', 20: 'activity_summary', 28: 'monitoring_daily',
+      32: 'monitoring_b', 34: 'segment', 35: 'segment_list', 40: 'exd_configuration'
+    }
+  },
+  manufacturer: {
+    baseType: 'uint16',
+    values: {
+      1: 'garmin', 6: 'srm', 7: 'quarq', 13: 'dynastream_oem', 15: 'dynastream',
+      23: 'suunto', 32: 'wahoo_fitness', 40: 'concept2', 41: 'shimano', 48: 'pioneer',
+      51: '4iiiis', 69: 'stages_cycling', 71: 'tomtom', 87: 'nielsen_kellerman',
+      89: 'tacx', 95: 'stryd', 123: 'polar_electro', 255: 'development', 260: 'zwift',
+      263: 'favero_electronics', 265: 'strava', 267: 'bryton', 268: 'sram',
+      289: 'hammerhead', 294: 'coros'
+    }
+  },
+  sport: {
+    baseType: 'enum',
+    values: {
+      0: 'generic', 1: 'running', 2: 'cycling', 3: 'transition', 4: 'fitness_equipment',
+      5: 'swimming', 6: 'basketball', 7: 'soccer', 8: 'tennis', 9: 'american_football',
+      10: 'training', 11: 'walking', 12: 'cross_country_skiing', 13: 'alpine_skiing',
+      14: 'snowboarding', 15: 'rowing', 16: 'mountaineering', 17: 'hiking',
+      18: 'multisport', 19: 'paddling', 20: 'flying', 21: 'e_biking', 22: 'motorcycling',
+      23: 'boating', 24: 'driving', 25: 'golf', 26: 'hang_gliding', 27: 'horseback_riding',
+      28: 'hunting', 29: 'fishing', 30: 'inline_skating', 31: 'rock_climbing',
+      32: 'sailing', 33: 'ice_skating', 34: 'sky_diving', 35: 'snowshoeing',
+      36: 'snowmobiling', 37: 'stand_up_paddleboarding', 38: 'surfing',
+      39: 'wakeboarding', 40: 'water_skiing', 41: 'kayaking', 42: 'rafting',
+      43: 'windsurfing', 44: 'kitesurfing', 45: 'tactical', 46: 'jumpmaster',
+      47: 'boxing', 48: 'floor_climbing', 53: 'diving', 254: 'all'
+    }
+  },
+  sub_sport: {
+    baseType: 'enum',
+    values: {
+      0: 'generic', 1: 'treadmill', 2: 'street', 3: 'trail', 4: 'track', 5: 'spin',
+      6: 'indoor_cycling', 7: 'road', 8: 'mountain', 9: 'downhill', 10: 'recumbent',
+      11: 'cyclocross', 12: 'hand_cycling', 13: 'track_cycling', 14: 'indoor_rowing',
+      15: 'elliptical', 16: 'stair_climbing', 17: 'lap_swimming', 18: 'open_water',
+      19: 'flexibility_training', 20: 'strength_training', 21: 'warm_up', 22: 'match',
+      23: 'exercise', 24: 'challenge', 25: 'indoor_skiing', 26: 'cardio_training',
+      27: 'indoor_walking', 28: 'e_bike_fitness', 29: 'bmx', 30: 'casual_walking',
+      31: 'speed_walking', 32: 'bike_to_run_transition', 33: 'run_to_bike_transition',
+      34: 'swim_to_bike_transition', 35: 'atv', 36: 'motocross', 37: 'backcountry',
+      38: 'resort', 39: 'rc_drone', 40: 'wingsuit', 41: 'whitewater', 42: 'skate_skiing',
+      43: 'yoga', 44: 'pilates', 45: 'indoor_running', 46: 'gravel_cycling',
+      47: 'e_bike_mountain', 48: 'commuting', 49: 'mixed_surface', 50: 'navigate',
+      51: 'track_me', 52: 'map', 58: 'virtual_activity', 59: 'obstacle',
+      65: 'sail_race', 67: 'ultra', 254: 'all'
+    }
+  },
+  event: {
+    baseType: 'enum',
+    values: {
+      0: 'timer', 3: 'workout', 4: 'workout_step', 5: 'power_down', 6: 'power_up',
+      7: 'off_course', 8: 'session', 9: 'lap', 10: 'course_point', 11: 'battery',
+      12: 'virtual_partner_pace', 13: 'hr_high_alert', 14: 'hr_low_alert',
+      15: 'speed_high_alert', 16: 'speed_low_alert', 17: 'cad_high_alert',
+      18: 'cad_low_alert', 19: 'power_high_alert', 20: 'power_low_alert',
+      21: 'recovery_hr', 22: 'battery_low', 23: 'time_duration_alert',
+      24: 'distance_duration_alert', 25: 'calorie_duration_alert', 26: 'activity',
+      27: 'fitness_equipment', 28: 'length', 32: 'user_marker', 33: 'sport_point',
+      36: 'calibration', 42: 'front_gear_change', 43: 'rear_gear_change',
+      44: 'rider_position_change', 45: 'elev_high_alert', 46: 'elev_low_alert',
+      47: 'comm_timeout'
+    }
+  },
+  event_type: {
+    baseType: 'enum',
+    values: {
+      0: 'start', 1: 'stop', 2: 'consecutive_depreciated', 3: 'marker', 4: 'stop_all',
+      5: 'begin_depreciated', 6: 'end_depreciated', 7: 'end_all_depreciated',
+      8: 'stop_disable', 9: 'stop_disable_all'
+    }
+  },
+  activity: {
+    baseType: 'enum',
+    values: { 0: 'manual', 1: 'auto_multi_sport' }
+  },
+  session_trigger: {
+    baseType: 'enum',
+    values: { 0: 'activity_end', 1: 'manual', 2: 'auto_multi_sport', 3: 'fitness_equipment' }
+  },
+  lap_trigger: {
+    baseType: 'enum',
+    values: {
+      0: 'manual', 1: 'time', 2: 'distance', 3: 'position_start', 4: 'position_lap',
+      5: 'position_waypoint', 6: 'position_marked', 7: 'session_end', 8: 'fitness_equipment'
+    }
+  },
+  intensity: {
+    baseType: 'enum',
+    values: { 0: 'active', 1: 'rest', 2: 'warmup', 3: 'cooldown', 4: 'recovery', 5: 'interval', 6: 'other' }
+  },
+  wkt_step_duration: {
+    baseType: 'enum',
+    values: {
+      0: 'time', 1: 'distance', 2: 'hr_less_than', 3: 'hr_greater_than', 4: 'calories',
+      5: 'open', 6: 'repeat_until_steps_cmplt', 7: 'repeat_until_time',
+      8: 'repeat_until_distance', 9: 'repeat_until_calories',
+      10: 'repeat_until_hr_less_than', 11: 'repeat_until_hr_greater_than',
+      12: 'repeat_until_power_less_than', 13: 'repeat_until_power_greater_than',
+      14: 'power_less_than', 15: 'power_greater_than', 16: 'training_peaks_tss',
+      28: 'repetition_time', 29: 'reps'
+    }
+  },
+  wkt_step_target: {
+    baseType: 'enum',
+    values: {
+      0: 'speed', 1: 'heart_rate', 2: 'open', 3: 'cadence', 4: 'power', 5: 'grade',
+      6: 'resistance', 7: 'power_3s', 8: 'power_10s', 9: 'power_30s', 10: 'power_lap',
+      11: 'swim_stroke', 12: 'speed_lap', 13: 'heart_rate_lap'
+    }
+  },
+  battery_status: {
+    baseType: 'uint8',
+    values: { 1: 'new', 2: 'good', 3: 'ok', 4: 'low', 5: 'critical', 6: 'charging', 7: 'unknown' }
+  },
+  source_type: {
+    baseType: 'enum',
+    values: { 0: 'ant', 1: 'antplus', 2: 'bluetooth', 3: 'bluetooth_low_energy', 4: 'wifi', 5: 'local' }
+  },
+  ant_network: {
+    baseType: 'enum',
+    values: { 0: 'public', 1: 'antplus', 2: 'antfs', 3: 'private' }
+  },
+  antplus_device_type: {
+    baseType: 'uint8',
+    values: {
+      1: 'antfs', 11: 'bike_power', 12: 'environment_sensor_legacy',
+      15: 'multi_sport_speed_distance', 16: 'control', 17: 'fitness_equipment',
+      18: 'blood_pressure', 19: 'geocache_node', 20: 'light_electric_vehicle',
+      25: 'env_sensor', 26: 'racquet', 27: 'control_hub', 31: 'muscle_oxygen',
+      34: 'shifting', 35: 'bike_light_main', 36: 'bike_light_shared', 38: 'exd',
+      40: 'bike_radar', 46: 'bike_aero', 119: 'weight_scale', 120: 'heart_rate',
+      121: 'bike_speed_cadence', 122: 'bike_cadence', 123: 'bike_speed',
+      124: 'stride_speed_distance'
+    }
+  },
+  body_location: { baseType: 'enum', values: {} },
+  left_right_balance: { baseType: 'uint8', values: {} },
+  left_right_balance_100: { baseType: 'uint16', values: {} },
+  message_index: { baseType: 'uint16', values: {} },
+  device_index: { baseType: 'uint8', values: {} },
+  mesg_num: { baseType: 'uint16', values: {} },
+  fit_base_unit: { baseType: 'uint16', values: {} }
+};
+
+/**
+ * Field layout inside a message profile
+ */
+export interface FitFieldProfile {
+  name: string;
+  /**
+   * A base type name, `date_time` / `local_date_time` (uint32 seconds since the
+   * FIT epoch) or the name of an enum type in {@link FIT_TYPES}
+   */
+  type: string;
+  scale?: number;
+  offset?: number;
+  units?: string;
+  /** True for fields holding a fixed-size array of values (e.g. `hrv.time`) */
+  array?: boolean;
+}
+
+/**
+ * Global message layout
+ */
+export interface FitMessageProfile {
+  name: string;
+  fields: Record<number, FitFieldProfile>;
+}
+
+/** Seconds between the Unix epoch and the FIT epoch (1989-12-31T00:00:00Z) */
+export const FIT_EPOCH_OFFSET_SECONDS = 631065600;
+
+/** Multiplier turning semicircles into degrees */
+export const SEMICIRCLES_TO_DEGREES = 180 / 2 ** 31;
+
+/** Field number of the `timestamp` field shared by all messages */
+export const TIMESTAMP_FIELD_NUMBER = 253;
+
+/** Field number of the `message_index` field shared by all messages */
+export const MESSAGE_INDEX_FIELD_NUMBER = 254;
+
+const timestampField: FitFieldProfile = { name: 'timestamp', type: 'date_time', units: 's' };
+const messageIndexField: FitFieldProfile = { name: 'message_index', type: 'message_index' };
+
+export const FIT_MESSAGES: Record<number, FitMessageProfile> = {
+  0: {
+    name: 'file_id',
+    fields: {
+      0: { name: 'type', type: 'file' },
+      1: { name: 'manufacturer', type: 'manufacturer' },
+      2: { name: 'product', type: 'uint16' },
+      3: { name: 'serial_number', type: 'uint32z' },
+      4: { name: 'time_created', type: 'date_time' },
+      5: { name: 'number', type: 'uint16' },
+      8: { name: 'product_name', type: 'string' }
+    }
+  },
+  12: {
+    name: 'sport',
+    fields: {
+      0: { name: 'sport', type: 'sport' },
+      1: { name: 'sub_sport', type: 'sub_sport' },
+      3: { name: 'name', type: 'string' }
+    }
+  },
+  18: {
+    name: 'session',
+    fields: {
+      254: messageIndexField,
+      253: timestampField,
+      0: { name: 'event', type: 'event' },
+      1: { name: 'event_type', type: 'event_type' },
+      2: { name: 'start_time', type: 'date_time' },
+      3: { name: 'start_position_lat', type: 'sint32', units: 'semicircles' },
+      4: { name: 'start_position_long', type: 'sint32', units: 'semicircles' },
+      5: { name: 'sport', type: 'sport' },
+      6: { name: 'sub_sport', type: 'sub_sport' },
+      7: { name: 'total_elapsed_time', type: 'uint32', scale: 1000, units: 's' },
+      8: { name: 'total_timer_time', type: 'uint32', scale: 1000, units: 's' },
+      9: { name: 'total_distance', type: 'uint32', scale: 100, units: 'm' },
+      10: { name: 'total_cycles', type: 'uint32', units: 'cycles' },
+      11: { name: 'total_calories', type: 'uint16', units: 'kcal' },
+      13: { name: 'total_fat_calories', type: 'uint16', units: 'kcal' },
+      14: { name: 'avg_speed', type: 'uint16', scale: 1000, units: 'm/s' },
+      15: { name: 'max_speed', type: 'uint16', scale: 1000, units: 'm/s' },
+      16: { name: 'avg_heart_rate', type: 'uint8', units: 'bpm' },
+      17: { name: 'max_heart_rate', type: 'uint8', units: 'bpm' },
+      18: { name: 'avg_cadence', type: 'uint8', units: 'rpm' },
+      19: { name: 'max_cadence', type: 'uint8', units: 'rpm' },
+      20: { name: 'avg_power', type: 'uint16', units: 'watts' },
+      21: { name: 'max_power', type: 'uint16', units: 'watts' },
+      22: { name: 'total_ascent', type: 'uint16', units: 'm' },
+      23: { name: 'total_descent', type: 'uint16', units: 'm' },
+      24: { name: 'total_training_effect', type: 'uint8', scale: 10 },
+      25: { name: 'first_lap_index', type: 'uint16' },
+      26: { name: 'num_laps', type: 'uint16' },
+      27: { name: 'event_group', type: 'uint8' },
+      28: { name: 'trigger', type: 'session_trigger' },
+      29: { name: 'nec_lat', type: 'sint32', units: 'semicircles' },
+      30: { name: 'nec_long', type: 'sint32', units: 'semicircles' },
+      31: { name: 'swc_lat', type: 'sint32', units: 'semicircles' },
+      32: { name: 'swc_long', type: 'sint32', units: 'semicircles' },
+      34: { name: 'normalized_power', type: 'uint16', units: 'watts' },
+      35: { name: 'training_stress_score', type: 'uint16', scale: 10, units: 'tss' },
+      36: { name: 'intensity_factor', type: 'uint16', scale: 1000, units: 'if' },
+      37: { name: 'left_right_balance', type: 'left_right_balance_100' },
+      38: { name: 'end_position_lat', type: 'sint32', units: 'semicircles' },
+      39: { name: 'end_position_long', type: 'sint32', units: 'semicircles' },
+      45: { name: 'threshold_power', type: 'uint16', units: 'watts' },
+      48: { name: 'total_work', type: 'uint32', units: 'J' },
+      57: { name: 'avg_temperature', type: 'sint8', units: 'C' },
+      58: { name: 'max_temperature', type: 'sint8', units: 'C' },
+      59: { name: 'total_moving_time', type: 'uint32', scale: 1000, units: 's' },
+      64: { name: 'min_heart_rate', type: 'uint8', units: 'bpm' },
+      124: { name: 'enhanced_avg_speed', type: 'uint32', scale: 1000, units: 'm/s' },
+      125: { name: 'enhanced_max_speed', type: 'uint32', scale: 1000, units: 'm/s' },
+      126: { name: 'enhanced_avg_altitude', type: 'uint32', scale: 5, offset: 500, units: 'm' },
+      127: { name: 'enhanced_min_altitude', type: 'uint32', scale: 5, offset: 500, units: 'm' },
+      128: { name: 'enhanced_max_altitude', type: 'uint32', scale: 5, offset: 500, units: 'm' },
+      137: { name: 'total_anaerobic_effect', type: 'uint8', scale: 10 }
+    }
+  },
+  19: {
+    name: 'lap',
+    fields: {
+      254: messageIndexField,
+      253: timestampField,
+      0: { name: 'event', type: 'event' },
+      1: { name: 'event_type', type: 'event_type' },
+      2: { name: 'start_time', type: 'date_time' },
+      3: { name: 'start_position_lat', type: 'sint32', units: 'semicircles' },
+      4: { name: 'start_position_long', type: 'sint32', units: 'semicircles' },
+      5: { name: 'end_position_lat', type: 'sint32', units: 'semicircles' },
+      6: { name: 'end_position_long', type: 'sint32', units: 'semicircles' },
+      7: { name: 'total_elapsed_time', type: 'uint32', scale: 1000, units: 's' },
+      8: { name: 'total_timer_time', type: 'uint32', scale: 1000, units: 's' },
+      9: { name: 'total_distance', type: 'uint32', scale: 100, units: 'm' },
+      10: { name: 'total_cycles', type: 'uint32', units: 'cycles' },
+      11: { name: 'total_calories', type: 'uint16', units: 'kcal' },
+      12: { name: 'total_fat_calories', type: 'uint16', units: 'kcal' },
+      13: { name: 'avg_speed', type: 'uint16', scale: 1000, units: 'm/s' },
+      14: { name: 'max_speed', type: 'uint16', scale: 1000, units: 'm/s' },
+      15: { name: 'avg_heart_rate', type: 'uint8', units: 'bpm' },
+      16: { name: 'max_heart_rate', type: 'uint8', units: 'bpm' },
+      17: { name: 'avg_cadence', type: 'uint8', units: 'rpm' },
+      18: { name: 'max_cadence', type: 'uint8', units: 'rpm' },
+      19: { name: 'avg_power', type: 'uint16', units: 'watts' },
+      20: { name: 'max_power', type: 'uint16', units: 'watts' },
+      21: { name: 'total_ascent', type: 'uint16', units: 'm' },
+      22: { name: 'total_descent', type: 'uint16', units: 'm' },
+      23: { name: 'intensity', type: 'intensity' },
+      24: { name: 'lap_trigger', type: 'lap_trigger' },
+      25: { name: 'sport', type: 'sport' },
+      26: { name: 'event_group', type: 'uint8' },
+      33: { name: 'normalized_power', type: 'uint16', units: 'watts' },
+      34: { name: 'left_right_balance', type: 'left_right_balance_100' },
+      39: { name: 'sub_sport', type: 'sub_sport' },
+      41: { name: 'total_work', type: 'uint32', units: 'J' },
+      50: { name: 'avg_temperature', type: 'sint8', units: 'C' },
+      51: { name: 'max_temperature', type: 'sint8', units: 'C' },
+      52: { name: 'total_moving_time', type: 'uint32', scale: 1000, units: 's' },
+      63: { name: 'min_heart_rate', type: 'uint8', units: 'bpm' },
+      71: { name: 'wkt_step_index', type: 'message_index' },
+      110: { name: 'enhanced_avg_speed', type: 'uint32', scale: 1000, units: 'm/s' },
+      111: { name: 'enhanced_max_speed', type: 'uint32', scale: 1000, units: 'm/s' },
+      112: { name: 'enhanced_avg_altitude', type: 'uint32', scale: 5, offset: 500, units: 'm' },
+      113: { name: 'enhanced_min_altitude', type: 'uint32', scale: 5, offset: 500, units: 'm' },
+      114: { name: 'enhanced_max_altitude', type: 'uint32', scale: 5, offset: 500, units: 'm' }
+    }
+  },
+  20: {
+    name: 'record',
+    fields: {
+      253: timestampField,
+      0: { name: 'position_lat', type: 'sint32', units: 'semicircles' },
+      1: { name: 'position_long', type: 'sint32', units: 'semicircles' },
+      2: { name: 'altitude', type: 'uint16', scale: 5, offset: 500, units: 'm' },
+      3: { name: 'heart_rate', type: 'uint8', units: 'bpm' },
+      4: { name: 'cadence', type: 'uint8', units: 'rpm' },
+      5: { name: 'distance', type: 'uint32', scale: 100, units: 'm' },
+      6: { name: 'speed', type: 'uint16', scale: 1000, units: 'm/s' },
+      7: { name: 'power', type: 'uint16', units: 'watts' },
+      9: { name: 'grade', type: 'sint16', scale: 100, units: '%' },
+      12: { name: 'cycle_length', type: 'uint8', scale: 100, units: 'm' },
+      13: { name: 'temperature', type: 'sint8', units: 'C' },
+      19: { name: 'total_cycles', type: 'uint32', units: 'cycles' },
+      29: { name: 'accumulated_power', type: 'uint32', units: 'watts' },
+      30: { name: 'left_right_balance', type: 'left_right_balance' },
+      31: { name: 'gps_accuracy', type: 'uint8', units: 'm' },
+      32: { name: 'vertical_speed', type: 'sint16', scale: 1000, units: 'm/s' },
+      33: { name: 'calories', type: 'uint16', units: 'kcal' },
+      53: { name: 'fractional_cadence', type: 'uint8', scale: 128, units: 'rpm' },
+      62: { name: 'device_index', type: 'device_index' },
+      73: { name: 'enhanced_speed', type: 'uint32', scale: 1000, units: 'm/s' },
+      78: { name: 'enhanced_altitude', type: 'uint32', scale: 5, offset: 500, units: 'm' }
+    }
+  },
+  21: {
+    name: 'event',
+    fields: {
+      253: timestampField,
+      0: { name: 'event', type: 'event' },
+      1: { name: 'event_type', type: 'event_type' },
+      2: { name: 'data16', type: 'uint16' },
+      3: { name: 'data', type: 'uint32' },
+      4: { name: 'event_group', type: 'uint8' },
+      13: { name: 'device_index', type: 'device_index' }
+    }
+  },
+  23: {
+    name: 'device_info',
+    fields: {
+      253: timestampField,
+      0: { name: 'device_index', type: 'device_index' },
+      1: { name: 'device_type', type: 'antplus_device_type' },
+      2: { name: 'manufacturer', type: 'manufacturer' },
+      3: { name: 'serial_number', type: 'uint32z' },
+      4: { name: 'product', type: 'uint16' },
+      5: { name: 'software_version', type: 'uint16', scale: 100 },
+      6: { name: 'hardware_version', type: 'uint8' },
+      7: { name: 'cum_operating_time', type: 'uint32', units: 's' },
+      10: { name: 'battery_voltage', type: 'uint16', scale: 256, units: 'V' },
+      11: { name: 'battery_status', type: 'battery_status' },
+      18: { name: 'sensor_position', type: 'body_location' },
+      19: { name: 'descriptor', type: 'string' },
+      20: { name: 'ant_transmission_type', type: 'uint8z' },
+      21: { name: 'ant_device_number', type: 'uint16z' },
+      22: { name: 'ant_network', type: 'ant_network' },
+      25: { name: 'source_type', type: 'source_type' },
+      27: { name: 'product_name', type: 'string' },
+      32: { name: 'battery_level', type: 'uint8', units: '%' }
+    }
+  },
+  26: {
+    name: 'workout',
+    fields: {
+      4: { name: 'sport', type: 'sport' },
+      6: { name: 'num_valid_steps', type: 'uint16' },
+      8: { name: 'wkt_name', type: 'string' },
+      11: { name: 'sub_sport', type: 'sub_sport' }
+    }
+  },
+  // Duration and target values depend on their type, see `workoutPlan.ts`
+  27: {
+    name: 'workout_step',
+    fields: {
+      254: messageIndexField,
+      0: { name: 'wkt_step_name', type: 'string' },
+      1: { name: 'duration_type', type: 'wkt_step_duration' },
+      2: { name: 'duration_value', type: 'uint32' },
+      3: { name: 'target_type', type: 'wkt_step_target' },
+      4: { name: 'target_value', type: 'uint32' },
+      5: { name: 'custom_target_value_low', type: 'uint32' },
+      6: { name: 'custom_target_value_high', type: 'uint32' },
+      7: { name: 'intensity', type: 'intensity' },
+      8: { name: 'notes', type: 'string' }
+    }
+  },
+  34: {
+    name: 'activity',
+    fields: {
+      253: timestampField,
+      0: { name: 'total_timer_time', type: 'uint32', scale: 1000, units: 's' },
+      1: { name: 'num_sessions', type: 'uint16' },
+      2: { name: 'type', type: 'activity' },
+      3: { name: 'event', type: 'event' },
+      4: { name: 'event_type', type: 'event_type' },
+      5: { name: 'local_timestamp', type: 'local_date_time' },
+      6: { name: 'event_group', type: 'uint8' }
+    }
+  },
+  49: {
+    name: 'file_creator',
+    fields: {
+      0: { name: 'software_version', type: 'uint16' },
+      1: { name: 'hardware_version', type: 'uint8' }
+    }
+  },
+  78: {
+    name: 'hrv',
+    fields: {
+      0: { name: 'time', type: 'uint16', scale: 1000, units: 's', array: true }
+    }
+  },
+  206: {
+    name: 'field_description',
+    fields: {
+      0: { name: 'developer_data_index', type: 'uint8' },
+      1: { name: 'field_definition_number', type: 'uint8' },
+      2: { name: 'fit_base_type_id', type: 'uint8' },
+      3: { name: 'field_name', type: 'string' },
+      4: { name: 'array', type: 'uint8' },
+      5: { name: 'components', type: 'string' },
+      6: { name: 'scale', type: 'uint8' },
+      7: { name: 'offset', type: 'sint8' },
+      8: { name: 'units', type: 'string' },
+      9: { name: 'bits', type: 'string' },
+      10: { name: 'accumulate', type: 'string' },
+      13: { name: 'fit_base_unit_id', type: 'fit_base_unit' },
+      14: { name: 'native_mesg_num', type: 'mesg_num' },
+      15: { name: 'native_field_num', type: 'uint8' }
+    }
+  },
+  207: {
+    name: 'developer_data_id',
+    fields: {
+      0: { name: 'developer_id', type: 'byte', array: true },
+      1: { name: 'application_id', type: 'byte', array: true },
+      2: { name: 'manufacturer_id', type: 'manufacturer' },
+      3: { name: 'developer_data_index', type: 'uint8' },
+      4: { name: 'application_version', type: 'uint32' }
+    }
+  }
+};
+
+/**
+ * Find the global message number for a message name
+ */
+export function getMessageNumber(messageName: string): number | undefined {
+  const entry = Object.entries(FIT_MESSAGES).find(([, profile]) => profile.name === messageName);
+  return entry ? Number(entry[0]) : undefined;
+}
+
+/**
+ * Resolve the base type a profile field is stored as
+ */
+export function getFieldBaseType(field: FitFieldProfile): FitBaseTypeName {
+  if (field.type === 'date_time' || field.type === 'local_date_time') {
+    return 'uint32';
+  }
+  const enumType = FIT_TYPES[field.type];
+  return enumType ? enumType.baseType : field.type as FitBaseTypeName;
+}
@@ -1,3 +1,6 @@
+import { formatUtcOffset, toLocalTime, type ActivityTimeZone } from './timezone';
+import { convertFieldValue, type UnitPreferences } from './units';
+
 /**
  * Extra GPS field names that don't follow the _lat/_long pattern
  */
@@ -10,12 +13,14 @@ export const EXTRA_GPS_FIELDS: string[] = [
  * @param value - The number to format
  * @param fieldNameOrDecimals - Field name or number of decimal places
  * @param decimalsOverride - Override for number of decimal places
+ * @param units - Unit preferences to convert a value in SI units to, needs a field name
  * @returns Formatted number or original value if not a number
  */
 export function formatValue(
   value: any, 
   fieldNameOrDecimals: string | number = 2, 
-  decimalsOverride?: number
+  decimalsOverride?: number,
+  units?: UnitPreferences
 ): number | string | null | undefined {
   // Handle null/undefined/NaN values
   if (value === null || value === undefined || isNaN(Number(value))) {
@@ -23,7 +28,10 @@ export function formatValue(
   }
 
   // Convert to number if it's a string or other format
-  const numValue: number = typeof value === 'number' ? value : Number(value);
+  let numValue: number = typeof value === 'number' ? value : Number(value);
+  if (units && typeof fieldNameOrDecimals === 'string') {
+    numValue = convertFieldValue(fieldNameOrDecimals, numValue, units);
+  }
   
   // Determine if this is a GPS coordinate and how many decimals to use
   let isGpsCoordinate = false;
@@ -52,6 +60,21 @@ export function formatValue(
   return Number(numValue.toFixed(decimals));
 }
 
+/**
+ * Formats a timestamp in the local time of the activity
+ * @param date - Timestamp, a Date or an ISO date string
+ * @param timeZone - Timezone of the activity, the browser's zone is used when not given
+ * @returns Formatted date and time with the UTC offset, e.g. "6/1/2024, 9:30:00 AM (UTC+02:00)"
+ */
+export function formatDateTime(date: Date | string, timeZone?: ActivityTimeZone): string {
+  const value = date instanceof Date ? date : new Date(date);
+  if (!timeZone) {
+    return value.toLocaleString();
+  }
+  // The shifted time reads as local time in UTC, whatever the browser's zone is
+  return `${toLocalTime(value, timeZone).toLocaleString(undefined, { timeZone: 'UTC' })} (${formatUtcOffset(timeZone.offset)})`;
+}
+
 /**
  * Checks if a field name is a GPS coordinate field
  * Uses pattern matching to detect fields ending with _lat or _long
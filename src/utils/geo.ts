@@ -0,0 +1,29 @@
+/**
+ * Geographic helpers shared by the parsers and the session analysis
+ */
+
+/** Earth's mean radius in meters */
+const EARTH_RADIUS = 6371000;
+
+/**
+ * Calculate the distance between two GPS coordinates with the haversine formula
+ *
+ * @param lat1 - Latitude of the first point in degrees
+ * @param lon1 - Longitude of the first point in degrees
+ * @param lat2 - Latitude of the second point in degrees
+ * @param lon2 - Longitude of the second point in degrees
+ * @returns Distance in meters
+ */
+export function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const φ1 = lat1 * Math.PI / 180;
+  const φ2 = lat2 * Math.PI / 180;
+  const Δφ = (lat2 - lat1) * Math.PI / 180;
+  const Δλ = (lon2 - lon1) * Math.PI / 180;
+
+  const a = Math.sin(Δφ/2) * Math.sin(Δφ/2) +
+            Math.cos(φ1) * Math.cos(φ2) *
+            Math.sin(Δλ/2) * Math.sin(Δλ/2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
+
+  return EARTH_RADIUS * c;
+}
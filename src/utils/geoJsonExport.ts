@@ -0,0 +1,233 @@
+/**
+ * GeoJSON Export
+ *
+ * Writes the route of a session as a GeoJSON FeatureCollection for mapping
+ * libraries and GIS tools. The route is split into LineStrings per lap or per
+ * zone of a metric, each carrying the metrics of its part of the route, so a map
+ * can colour the route by heart rate zone or speed. Point features mark lap starts,
+ * timer pauses and the peaks of the session.
+ */
+
+import { type IFitData } from './fitFileParser';
+import { getRoutePoints, round, splitRouteByLap, splitRouteByZone, toPosition, type RoutePoint } from './route';
+import { convertFieldValue, SI_UNITS, type UnitPreferences } from './units';
+import { hrZones, type IZone } from './zones';
+
+/**
+ * How the route is split into LineStrings
+ */
+export type GeoJsonSegmentation = 'lap' | 'zone';
+
+export interface GeoJsonExportOptions {
+  /** Session to export, for multi-session files */
+  sessionIndex?: number;
+  /** One LineString per lap, or per run of records in the same zone (default: `lap`) */
+  segmentBy?: GeoJsonSegmentation;
+  /** Field the zones are taken from (default: `heart_rate`) */
+  zoneField?: string;
+  /** Zones in `units`, e.g. the athlete's zones (default: `hrZones`) */
+  zones?: IZone[];
+  /** Units of the metric properties (default: SI); coordinates and elevations stay in degrees and meters */
+  units?: UnitPreferences;
+  /** Fields whose maximum is marked with a Point (default: heart rate, speed, power, stroke rate and altitude) */
+  peakFields?: string[];
+}
+
+export interface GeoJsonLineString {
+  type: 'LineString';
+  /** `[longitude, latitude]` or `[longitude, latitude, altitude]` positions */
+  coordinates: number[][];
+}
+
+export interface GeoJsonPoint {
+  type: 'Point';
+  coordinates: number[];
+}
+
+export interface GeoJsonFeature<G extends GeoJsonLineString | GeoJsonPoint = GeoJsonLineString | GeoJsonPoint> {
+  type: 'Feature';
+  geometry: G;
+  properties: Record<string, string | number | undefined>;
+}
+
+export interface GeoJsonFeatureCollection {
+  type: 'FeatureCollection';
+  /** Session summary; a foreign member, ignored by tools that don't know it */
+  properties: Record<string, string | number | undefined>;
+  features: GeoJsonFeature[];
+}
+
+const METRIC_FIELDS = ['heart_rate', 'speed', 'watt', 'power', 'stroke rate', 'cadence', 'altitude', 'temperature'];
+const DEFAULT_PEAK_FIELDS = ['heart_rate', 'speed', 'watt', 'power', 'stroke rate', 'altitude'];
+
+/**
+ * Convert a session to GeoJSON
+ *
+ * Records without a position are left out of the geometry. LineStrings share their
+ * boundary point with the next one, so the route has no gaps.
+ *
+ * @param fitData - Parsed data, from any parser and in any units
+ * @param options - Session, segmentation, zones and units
+ * @returns FeatureCollection with `segment`, `lap`, `pause` and `peak` features,
+ *   told apart by their `feature_type` property
+ *
+ * @example
+ * ```typescript
+ * const geoJson = toGeoJSON(fitData, { segmentBy: 'zone', zones: athlete.heartRateZones });
+ * // Style the route in Leaflet by zone
+ * L.geoJSON(geoJson, { style: feature => ({ color: zoneColors[feature.properties.zone_index] }) });
+ * ```
+ */
+export function toGeoJSON(fitData: IFitData, options: GeoJsonExportOptions = {}): GeoJsonFeatureCollection {
+  const units = options.units ?? SI_UNITS;
+  const session = fitData.activity.sessions[options.sessionIndex ?? 0];
+  const points = getRoutePoints(fitData, options.sessionIndex ?? 0);
+  const zoneField = options.zoneField ?? 'heart_rate';
+  const zones = options.zones ?? hrZones;
+
+  const sections = options.segmentBy === 'zone'
+    ? splitRouteByZone(points, zoneField, zones, units)
+    : splitRouteByLap(points);
+
+  const features: GeoJsonFeature[] = [
+    ...sections.map(section => lineFeature(section.points, {
+      feature_type: 'segment',
+      lap: section.lap,
+      ...(options.segmentBy === 'zone' ? {
+        zone_field: zoneField,
+        zone: section.zoneIndex !== undefined ? zones[section.zoneIndex].name : undefined,
+        zone_index: section.zoneIndex
+      } : {}),
+      ...summarizePoints(section.points, units)
+    })),
+    ...lapFeatures(points, fitData, options.sessionIndex ?? 0, units),
+    ...pauseFeatures(points, fitData),
+    ...peakFeatures(points, options.peakFields ?? DEFAULT_PEAK_FIELDS, units)
+  ];
+
+  return {
+    type: 'FeatureCollection',
+    properties: {
+      sport: session?.sport !== undefined ? String(session.sport) : undefined,
+      start_time: session?.start_time?.toISOString(),
+      ...summarizePoints(points, units)
+    },
+    features
+  };
+}
+
+/**
+ * Times, distance and the average and maximum of the metric fields of a stretch of route
+ */
+function summarizePoints(points: RoutePoint[], units: UnitPreferences): GeoJsonFeature['properties'] {
+  if (points.length === 0) return {};
+  const first = points[0];
+  const last = points[points.length - 1];
+  const properties: GeoJsonFeature['properties'] = {
+    start_time: first.timestamp.toISOString(),
+    end_time: last.timestamp.toISOString(),
+    elapsed_time: (last.timestamp.getTime() - first.timestamp.getTime()) / 1000,
+    timer_time: typeof first.timer_time === 'number' && typeof last.timer_time === 'number'
+      ? last.timer_time - first.timer_time
+      : undefined,
+    distance: typeof first.distance === 'number' && typeof last.distance === 'number'
+      ? round(convertFieldValue('distance', last.distance - first.distance, units))
+      : undefined
+  };
+
+  for (const field of METRIC_FIELDS) {
+    const values = points.map(point => point[field]).filter((value): value is number => typeof value === 'number' && !isNaN(value));
+    if (values.length === 0) continue;
+    const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+    // Developer fields like `stroke rate` have spaces, property names don't
+    const name = field.replace(/ /g, '_');
+    properties[`avg_${name}`] = round(convertFieldValue(field, mean, units));
+    properties[`max_${name}`] = round(convertFieldValue(field, Math.max(...values), units));
+  }
+  return properties;
+}
+
+function lapFeatures(points: RoutePoint[], fitData: IFitData, sessionIndex: number, units: UnitPreferences): GeoJsonFeature[] {
+  const laps = fitData.activity.sessions[sessionIndex]?.laps ?? [];
+  return laps.flatMap((lap, index) => {
+    const lapPoints = points.filter(point => point.lap === index + 1);
+    if (lapPoints.length === 0) return [];
+    return [pointFeature(lapPoints[0], {
+      feature_type: 'lap',
+      lap: index + 1,
+      lap_trigger: lap.lap_trigger !== undefined ? String(lap.lap_trigger) : undefined,
+      ...summarizePoints(lapPoints, units)
+    })];
+  });
+}
+
+/**
+ * Pauses between a timer stop and the next start, placed at the last position
+ * before the stop
+ */
+function pauseFeatures(points: RoutePoint[], fitData: IFitData): GeoJsonFeature[] {
+  if (points.length === 0) return [];
+  const timerEvents = fitData.activity.events
+    .filter(event => event.event === 'timer' && event.timestamp)
+    .sort((a, b) => a.timestamp!.getTime() - b.timestamp!.getTime());
+  const routeStart = points[0].timestamp.getTime();
+  const routeEnd = points[points.length - 1].timestamp.getTime();
+
+  const features: GeoJsonFeature[] = [];
+  let stoppedAt: Date | undefined;
+  for (const event of timerEvents) {
+    if (event.event_type === 'stop' || event.event_type === 'stop_all') {
+      stoppedAt = stoppedAt ?? event.timestamp;
+    } else if (event.event_type === 'start' && stoppedAt) {
+      const stop = stoppedAt.getTime();
+      stoppedAt = undefined;
+      if (stop < routeStart || stop > routeEnd) continue;
+
+      const location = points.filter(point => point.timestamp.getTime() <= stop).pop() ?? points[0];
+      features.push(pointFeature(location, {
+        feature_type: 'pause',
+        start_time: new Date(stop).toISOString(),
+        end_time: event.timestamp!.toISOString(),
+        duration: (event.timestamp!.getTime() - stop) / 1000
+      }));
+    }
+  }
+  return features;
+}
+
+function peakFeatures(points: RoutePoint[], fields: string[], units: UnitPreferences): GeoJsonFeature[] {
+  return fields.flatMap(field => {
+    const peak = points.reduce<{ point: RoutePoint; value: number } | undefined>((best, point) => {
+      const value = point[field];
+      return typeof value === 'number' && !isNaN(value) && (best === undefined || value > best.value) ? { point, value } : best;
+    }, undefined);
+    if (!peak) return [];
+    return [pointFeature(peak.point, {
+      feature_type: 'peak',
+      field,
+      value: round(convertFieldValue(field, peak.value, units)),
+      timestamp: peak.point.timestamp.toISOString(),
+      lap: peak.point.lap
+    })];
+  });
+}
+
+function lineFeature(points: RoutePoint[], properties: GeoJsonFeature['properties']): GeoJsonFeature<GeoJsonLineString> {
+  return {
+    type: 'Feature',
+    geometry: { type: 'LineString', coordinates: points.map(toPosition) },
+    properties: withoutUndefined(properties)
+  };
+}
+
+function pointFeature(point: RoutePoint, properties: GeoJsonFeature['properties']): GeoJsonFeature<GeoJsonPoint> {
+  return {
+    type: 'Feature',
+    geometry: { type: 'Point', coordinates: toPosition(point) },
+    properties: withoutUndefined(properties)
+  };
+}
+
+function withoutUndefined(properties: GeoJsonFeature['properties']): GeoJsonFeature['properties'] {
+  return Object.fromEntries(Object.entries(properties).filter(([, value]) => value !== undefined));
+}
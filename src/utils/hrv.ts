@@ -0,0 +1,375 @@
+/**
+ * Heart Rate Variability
+ *
+ * Beat-to-beat analysis of the RR intervals recorded by chest straps in FIT `hrv`
+ * messages. The intervals are cleaned of artifacts (missed and extra beats) before
+ * the time-domain metrics and DFA alpha1 are calculated. DFA alpha1 falls below
+ * 0.75 around the aerobic threshold, so its crossings of that value estimate when
+ * an effort moved above or below the threshold.
+ */
+
+import { type FitHrvMessage } from './fitDecoder';
+import { type IFitData } from './fitFileParser';
+
+/**
+ * One heart beat
+ */
+export interface RRInterval {
+  /** Index of the beat in the series */
+  beat: number;
+  /** Time of the beat */
+  timestamp: Date;
+  /** Seconds from the start of the series */
+  elapsed_time: number;
+  /** RR interval in milliseconds, after artifact correction */
+  rr: number;
+  /** RR interval in milliseconds as recorded */
+  raw_rr: number;
+  /** Instantaneous heart rate in bpm */
+  heart_rate: number;
+  /** True when the recorded interval was an artifact and was replaced */
+  corrected: boolean;
+}
+
+/**
+ * Time-domain HRV metrics of a series of beats
+ */
+export interface HrvTimeDomainMetrics {
+  beats: number;
+  /** Mean RR interval in ms */
+  meanRR: number;
+  /** Mean heart rate in bpm */
+  meanHeartRate: number;
+  /** Root mean square of successive differences in ms */
+  rmssd: number;
+  /** Standard deviation of the RR intervals in ms */
+  sdnn: number;
+  /** Percentage of successive differences over 50 ms */
+  pnn50: number;
+  /** Share of beats that were corrected, 0-1 */
+  artifactRate: number;
+}
+
+/**
+ * DFA alpha1 of a rolling window
+ */
+export interface DfaAlpha1Point {
+  /** End of the window */
+  timestamp: Date;
+  elapsed_time: number;
+  alpha1: number;
+  /** Mean heart rate over the window in bpm */
+  heart_rate: number;
+  /** Share of corrected beats in the window, 0-1 */
+  artifactRate: number;
+}
+
+/**
+ * A crossing of the aerobic threshold estimated from DFA alpha1
+ */
+export interface AerobicThresholdCrossing {
+  timestamp: Date;
+  elapsed_time: number;
+  /** Intensity moved `above` the threshold (alpha1 fell) or `below` it (alpha1 rose) */
+  direction: 'above' | 'below';
+  /** Heart rate at the crossing in bpm, an estimate of the heart rate at the threshold */
+  heart_rate: number;
+}
+
+/**
+ * Beat-to-beat analysis of a session
+ */
+export interface HrvAnalysis {
+  session: HrvTimeDomainMetrics | null;
+  /** Metrics of each lap, null for laps with fewer than two beats */
+  laps: Array<HrvTimeDomainMetrics | null>;
+  dfaAlpha1: DfaAlpha1Point[];
+  aerobicThresholdCrossings: AerobicThresholdCrossing[];
+}
+
+export interface DfaAlpha1Options {
+  /** Window length in seconds (default: 120) */
+  windowSeconds?: number;
+  /** Seconds between two windows (default: 5) */
+  stepSeconds?: number;
+}
+
+/** Shortest and longest RR interval a heart produces, in ms */
+const MIN_RR = 250;
+const MAX_RR = 2000;
+/** Beats on each side of a beat its local median is taken over */
+const MEDIAN_RADIUS = 5;
+/** Relative deviation from the local median that marks an artifact */
+const DEFAULT_ARTIFACT_THRESHOLD = 0.2;
+/** Box sizes of the short-term scaling exponent */
+const DFA_MIN_BOX = 4;
+const DFA_MAX_BOX = 16;
+/** Fewest beats a DFA alpha1 window is calculated from */
+const DFA_MIN_BEATS = 50;
+/** Windows with more corrected beats than this are not used for threshold crossings */
+const MAX_WINDOW_ARTIFACT_RATE = 0.05;
+/** DFA alpha1 at the aerobic threshold */
+export const AEROBIC_THRESHOLD_ALPHA1 = 0.75;
+/** RR intervals per `hrv` message, as devices write them */
+const RR_INTERVALS_PER_MESSAGE = 5;
+
+/**
+ * Get the RR intervals of `hrv` messages in milliseconds, in recording order
+ */
+export function extractRRIntervals(hrv: FitHrvMessage[]): number[] {
+  return hrv.flatMap(message => message.time ?? []).map(seconds => seconds * 1000);
+}
+
+/**
+ * Get the start of the recording the RR intervals of a file are counted from: the
+ * first timer start, or the start of the first session
+ */
+export function getRecordingStart(fitData: IFitData): Date | undefined {
+  const timerStart = fitData.activity.events.find(event =>
+    event.event === 'timer' && event.event_type === 'start' && event.timestamp
+  );
+  return timerStart?.timestamp ?? fitData.activity.sessions[0]?.start_time;
+}
+
+/**
+ * Keep the RR intervals of the beats between two times, e.g. to cut a file down
+ * to one session or a time window. The intervals carry no timestamps, each beat is
+ * placed by adding up the intervals from the start of the recording.
+ *
+ * @param hrv - `hrv` messages of the file
+ * @param recordingStart - Time the first interval started, see `getRecordingStart`
+ * @param start - Beats starting before this time are dropped; the recording of the
+ *   cut file should start here
+ * @param end - Beats ending after this time are dropped (default: keep all)
+ * @returns `hrv` messages of the kept beats
+ *
+ * @example
+ * ```typescript
+ * const hrv = sliceRRIntervals(fitData.activity.hrv, getRecordingStart(fitData)!, lap.start_time!, lap.timestamp);
+ * ```
+ */
+export function sliceRRIntervals(hrv: FitHrvMessage[], recordingStart: Date, start: Date, end?: Date): FitHrvMessage[] {
+  let beatStart = recordingStart.getTime();
+  const kept = hrv.flatMap(message => message.time ?? []).filter(seconds => {
+    const beatEnd = beatStart + seconds * 1000;
+    const inside = beatStart >= start.getTime() && (!end || beatEnd <= end.getTime());
+    beatStart = beatEnd;
+    return inside;
+  });
+  return Array.from({ length: Math.ceil(kept.length / RR_INTERVALS_PER_MESSAGE) }, (_, index) => ({
+    time: kept.slice(index * RR_INTERVALS_PER_MESSAGE, (index + 1) * RR_INTERVALS_PER_MESSAGE)
+  }));
+}
+
+/**
+ * Build the beat series from RR intervals. Artifacts are replaced by the median of
+ * the surrounding beats, the beat times follow the recorded intervals.
+ *
+ * @param rrIntervals - RR intervals in ms
+ * @param start - Time the first interval started
+ * @param threshold - Relative deviation from the local median that marks an artifact (default: 0.2)
+ *
+ * @example
+ * ```typescript
+ * const beats = buildBeatSeries(extractRRIntervals(fitData.activity.hrv), session.start_time!);
+ * console.log(calculateTimeDomainMetrics(beats).rmssd);
+ * ```
+ */
+export function buildBeatSeries(rrIntervals: number[], start: Date, threshold: number = DEFAULT_ARTIFACT_THRESHOLD): RRInterval[] {
+  let elapsed = 0;
+  return rrIntervals.map((raw_rr, beat) => {
+    elapsed += raw_rr / 1000;
+    const median = localMedian(rrIntervals, beat);
+    const corrected = raw_rr < MIN_RR || raw_rr > MAX_RR || Math.abs(raw_rr - median) > threshold * median;
+    const rr = corrected ? median : raw_rr;
+    return {
+      beat,
+      timestamp: new Date(start.getTime() + elapsed * 1000),
+      elapsed_time: elapsed,
+      rr,
+      raw_rr,
+      heart_rate: 60000 / rr,
+      corrected
+    };
+  });
+}
+
+/**
+ * Median of the valid beats around a beat, without the beat itself
+ */
+function localMedian(rrIntervals: number[], index: number): number {
+  const neighbours = rrIntervals
+    .slice(Math.max(0, index - MEDIAN_RADIUS), index + MEDIAN_RADIUS + 1)
+    .filter((rr, offset) => offset !== Math.min(index, MEDIAN_RADIUS) && rr >= MIN_RR && rr <= MAX_RR)
+    .sort((a, b) => a - b);
+  if (neighbours.length === 0) return rrIntervals[index];
+  const middle = Math.floor(neighbours.length / 2);
+  return neighbours.length % 2 === 0 ? (neighbours[middle - 1] + neighbours[middle]) / 2 : neighbours[middle];
+}
+
+/**
+ * Calculate RMSSD, SDNN and pNN50 of a series of beats
+ *
+ * @returns The metrics, or null for fewer than two beats
+ */
+export function calculateTimeDomainMetrics(beats: RRInterval[]): HrvTimeDomainMetrics | null {
+  if (beats.length < 2) return null;
+
+  const rr = beats.map(beat => beat.rr);
+  const meanRR = rr.reduce((total, value) => total + value, 0) / rr.length;
+  const sdnn = Math.sqrt(rr.reduce((total, value) => total + (value - meanRR) ** 2, 0) / (rr.length - 1));
+
+  let squaredDifferences = 0;
+  let over50 = 0;
+  for (let i = 1; i < rr.length; i++) {
+    const difference = rr[i] - rr[i - 1];
+    squaredDifferences += difference ** 2;
+    if (Math.abs(difference) > 50) over50++;
+  }
+
+  return {
+    beats: beats.length,
+    meanRR,
+    meanHeartRate: 60000 / meanRR,
+    rmssd: Math.sqrt(squaredDifferences / (rr.length - 1)),
+    sdnn,
+    pnn50: over50 / (rr.length - 1) * 100,
+    artifactRate: beats.filter(beat => beat.corrected).length / beats.length
+  };
+}
+
+/**
+ * Calculate the short-term scaling exponent alpha1 of detrended fluctuation
+ * analysis over box sizes of 4 to 16 beats
+ *
+ * @param rrIntervals - RR intervals in ms
+ * @returns alpha1, or undefined when there are too few beats
+ */
+export function calculateDfaAlpha1(rrIntervals: number[]): number | undefined {
+  if (rrIntervals.length < DFA_MAX_BOX * 2) return undefined;
+
+  const mean = rrIntervals.reduce((total, value) => total + value, 0) / rrIntervals.length;
+  const profile = new Float64Array(rrIntervals.length);
+  let sum = 0;
+  rrIntervals.forEach((value, index) => {
+    sum += value - mean;
+    profile[index] = sum;
+  });
+
+  const logSizes: number[] = [];
+  const logFluctuations: number[] = [];
+  for (let size = DFA_MIN_BOX; size <= DFA_MAX_BOX; size++) {
+    const fluctuation = detrendedFluctuation(profile, size);
+    if (fluctuation > 0) {
+      logSizes.push(Math.log(size));
+      logFluctuations.push(Math.log(fluctuation));
+    }
+  }
+  return logSizes.length > 1 ? slope(logSizes, logFluctuations) : undefined;
+}
+
+/**
+ * Root mean square of the profile around the linear trend of each box
+ */
+function detrendedFluctuation(profile: Float64Array, size: number): number {
+  const boxes = Math.floor(profile.length / size);
+  // Least squares over x = 0..size-1, the same for every box
+  const meanX = (size - 1) / 2;
+  let varianceX = 0;
+  for (let x = 0; x < size; x++) varianceX += (x - meanX) ** 2;
+
+  let squaredResiduals = 0;
+  for (let box = 0; box < boxes; box++) {
+    const offset = box * size;
+    let meanY = 0;
+    for (let x = 0; x < size; x++) meanY += profile[offset + x];
+    meanY /= size;
+    let covariance = 0;
+    for (let x = 0; x < size; x++) covariance += (x - meanX) * (profile[offset + x] - meanY);
+    const trend = covariance / varianceX;
+    for (let x = 0; x < size; x++) {
+      squaredResiduals += (profile[offset + x] - (meanY + trend * (x - meanX))) ** 2;
+    }
+  }
+  return Math.sqrt(squaredResiduals / (boxes * size));
+}
+
+function slope(xs: number[], ys: number[]): number {
+  const meanX = xs.reduce((total, x) => total + x, 0) / xs.length;
+  const meanY = ys.reduce((total, y) => total + y, 0) / ys.length;
+  let covariance = 0;
+  let variance = 0;
+  xs.forEach((x, index) => {
+    covariance += (x - meanX) * (ys[index] - meanY);
+    variance += (x - meanX) ** 2;
+  });
+  return covariance / variance;
+}
+
+/**
+ * Calculate DFA alpha1 over rolling windows of beats
+ *
+ * @param beats - Beat series
+ * @param options - Window length and step
+ * @returns One point per window with enough beats
+ */
+export function calculateRollingDfaAlpha1(beats: RRInterval[], options: DfaAlpha1Options = {}): DfaAlpha1Point[] {
+  const windowSeconds = options.windowSeconds ?? 120;
+  const stepSeconds = options.stepSeconds ?? 5;
+  if (beats.length === 0) return [];
+
+  const points: DfaAlpha1Point[] = [];
+  const lastTime = beats[beats.length - 1].elapsed_time;
+  let first = 0;
+  let last = 0;
+  for (let end = beats[0].elapsed_time + windowSeconds; end <= lastTime; end += stepSeconds) {
+    while (last < beats.length && beats[last].elapsed_time <= end) last++;
+    while (first < last && beats[first].elapsed_time <= end - windowSeconds) first++;
+
+    const window = beats.slice(first, last);
+    if (window.length < DFA_MIN_BEATS) continue;
+    const alpha1 = calculateDfaAlpha1(window.map(beat => beat.rr));
+    if (alpha1 === undefined) continue;
+
+    const meanRR = window.reduce((total, beat) => total + beat.rr, 0) / window.length;
+    points.push({
+      timestamp: window[window.length - 1].timestamp,
+      elapsed_time: end,
+      alpha1,
+      heart_rate: 60000 / meanRR,
+      artifactRate: window.filter(beat => beat.corrected).length / window.length
+    });
+  }
+  return points;
+}
+
+/**
+ * Find where DFA alpha1 crosses the aerobic threshold value. Windows with too many
+ * corrected beats are skipped, their alpha1 is not reliable.
+ *
+ * @param points - Rolling DFA alpha1
+ * @param threshold - alpha1 at the threshold (default: 0.75)
+ */
+export function findAerobicThresholdCrossings(
+  points: DfaAlpha1Point[],
+  threshold: number = AEROBIC_THRESHOLD_ALPHA1
+): AerobicThresholdCrossing[] {
+  const crossings: AerobicThresholdCrossing[] = [];
+  let previous: DfaAlpha1Point | undefined;
+
+  for (const point of points) {
+    if (point.artifactRate > MAX_WINDOW_ARTIFACT_RATE) continue;
+    if (previous && (previous.alpha1 >= threshold) !== (point.alpha1 >= threshold)) {
+      // Heart rate interpolated to where alpha1 equals the threshold
+      const fraction = (threshold - previous.alpha1) / (point.alpha1 - previous.alpha1);
+      crossings.push({
+        timestamp: point.timestamp,
+        elapsed_time: point.elapsed_time,
+        direction: point.alpha1 < threshold ? 'above' : 'below',
+        heart_rate: previous.heart_rate + fraction * (point.heart_rate - previous.heart_rate)
+      });
+    }
+    previous = point;
+  }
+  return crossings;
+}
@@ -0,0 +1,191 @@
+/**
+ * Interval Detection
+ *
+ * Splits a session into work and rest by the intensity of one channel, e.g. power
+ * or speed. The channel is smoothed, then a state machine with hysteresis switches
+ * to work above the high threshold and back to rest below the low one. Without
+ * thresholds they are found from the data, by splitting the values into a high
+ * and a low group. Short rest gaps are merged into the work around them and work
+ * bursts too short to count as an interval are dropped.
+ */
+
+export type IntervalSegmentType = 'work' | 'rest' | 'warmup' | 'cooldown';
+
+/**
+ * A value of the channel with the timer time it was recorded at
+ */
+export interface IntervalSample {
+  value: number;
+  /** Timer time in seconds, so pauses take no time */
+  time: number;
+}
+
+/**
+ * A run of samples of one type, indexes are inclusive
+ */
+export interface IntervalSegment {
+  type: IntervalSegmentType;
+  startIndex: number;
+  endIndex: number;
+  /** Duration in seconds of timer time, until the next segment starts */
+  duration: number;
+}
+
+export interface IntervalThresholds {
+  /** Work starts at or above this value */
+  high: number;
+  /** Rest starts at or below this value */
+  low: number;
+  /** Widens the band between the thresholds, so noise around them doesn't flicker */
+  hysteresis?: number;
+}
+
+export interface IntervalSegmentationOptions {
+  /** Thresholds in the unit of the values, found from the data when not set */
+  thresholds?: IntervalThresholds;
+  /** Shortest work interval in seconds; shorter bursts count as rest (default: 30) */
+  minDuration?: number;
+  /** Longest rest in seconds merged into the work around it (default: 10) */
+  maxGap?: number;
+  /** Width of the centred moving average in seconds (default: 10) */
+  smoothing?: number;
+}
+
+/**
+ * Split samples into work and rest segments
+ *
+ * @param samples - Values in time order; samples without a number count as zero
+ * @param options - Thresholds, smoothing and the merging of short segments
+ * @returns Segments covering all samples; rest before the first and after the
+ *   last work interval is warm-up and cool-down
+ *
+ * @example
+ * ```typescript
+ * const samples = records.map(r => ({ value: r.power, time: r.timer_time }));
+ * const segments = segmentIntervals(samples, { minDuration: 60 });
+ * console.log(segments.filter(segment => segment.type === 'work').length, 'intervals');
+ * ```
+ */
+export function segmentIntervals(samples: IntervalSample[], options: IntervalSegmentationOptions = {}): IntervalSegment[] {
+  if (samples.length === 0) return [];
+
+  const values = smooth(samples, options.smoothing ?? 10);
+  const thresholds = options.thresholds ?? findIntervalThresholds(values);
+  if (!thresholds) return [toSegment(samples, 'rest', 0, samples.length - 1)];
+
+  const enterWork = thresholds.high + (thresholds.hysteresis ?? 0);
+  const enterRest = thresholds.low - (thresholds.hysteresis ?? 0);
+  const runs: Array<{ type: IntervalSegmentType; startIndex: number; endIndex: number }> = [];
+  let type: IntervalSegmentType = values[0] >= enterWork ? 'work' : 'rest';
+  values.forEach((value, index) => {
+    if (type === 'rest' && value >= enterWork) type = 'work';
+    else if (type === 'work' && value <= enterRest) type = 'rest';
+
+    const run = runs[runs.length - 1];
+    if (run?.type === type) run.endIndex = index;
+    else runs.push({ type, startIndex: index, endIndex: index });
+  });
+
+  const duration = (run: { startIndex: number; endIndex: number }) =>
+    (samples[run.endIndex + 1] ?? samples[run.endIndex]).time - samples[run.startIndex].time;
+  const maxGap = options.maxGap ?? 10;
+  const minDuration = options.minDuration ?? 30;
+  // Short rests between work join the work, then short work joins the rest
+  const merged = mergeRuns(runs, (run, index) =>
+    run.type === 'rest' && index > 0 && index < runs.length - 1 && duration(run) <= maxGap ? 'work' : run.type);
+  const segments = mergeRuns(merged, run => run.type === 'work' && duration(run) < minDuration ? 'rest' : run.type)
+    .map(run => toSegment(samples, run.type, run.startIndex, run.endIndex));
+
+  if (segments.some(segment => segment.type === 'work')) {
+    if (segments[0].type === 'rest') segments[0].type = 'warmup';
+    if (segments[segments.length - 1].type === 'rest') segments[segments.length - 1].type = 'cooldown';
+  }
+  return segments;
+}
+
+/**
+ * Find the value that best separates the high from the low values, by iterating
+ * the midpoint between the averages of the two groups. The band around it spans a
+ * tenth of the distance between the groups.
+ *
+ * @returns The thresholds, or null when all values are equal
+ */
+export function findIntervalThresholds(values: number[]): IntervalThresholds | null {
+  const valid = values.filter(value => !isNaN(value));
+  if (valid.length === 0) return null;
+
+  let split = valid.reduce((sum, value) => sum + value, 0) / valid.length;
+  for (let iteration = 0; iteration < 50; iteration++) {
+    const high = valid.filter(value => value > split);
+    const low = valid.filter(value => value <= split);
+    if (high.length === 0 || low.length === 0) return null;
+
+    const highMean = high.reduce((sum, value) => sum + value, 0) / high.length;
+    const lowMean = low.reduce((sum, value) => sum + value, 0) / low.length;
+    const next = (highMean + lowMean) / 2;
+    if (Math.abs(next - split) < 1e-6) {
+      return { high: next, low: next, hysteresis: (highMean - lowMean) / 10 };
+    }
+    split = next;
+  }
+  return { high: split, low: split };
+}
+
+/**
+ * How clearly work stands out from rest, from 0 to 1: the distance between their
+ * averages relative to the spread within them. Work one standard deviation above
+ * rest on both sides scores 0.5.
+ */
+export function getSeparationConfidence(work: number[], rest: number[]): number {
+  if (work.length === 0 || rest.length === 0) return 0;
+  const [workMean, workDeviation] = meanAndDeviation(work);
+  const [restMean, restDeviation] = meanAndDeviation(rest);
+  const spread = workDeviation + restDeviation;
+  if (spread === 0) return workMean > restMean ? 1 : 0;
+  return Math.min(1, Math.max(0, (workMean - restMean) / spread / 2));
+}
+
+function toSegment(samples: IntervalSample[], type: IntervalSegmentType, startIndex: number, endIndex: number): IntervalSegment {
+  const end = samples[endIndex + 1] ?? samples[endIndex];
+  return { type, startIndex, endIndex, duration: end.time - samples[startIndex].time };
+}
+
+/**
+ * Retype runs and join neighbours of the same type
+ */
+function mergeRuns<T extends { type: IntervalSegmentType; startIndex: number; endIndex: number }>(
+  runs: T[],
+  typeOf: (run: T, index: number) => IntervalSegmentType
+): T[] {
+  const merged: T[] = [];
+  runs.forEach((run, index) => {
+    const type = typeOf(run, index);
+    const previous = merged[merged.length - 1];
+    if (previous?.type === type) previous.endIndex = run.endIndex;
+    else merged.push({ ...run, type });
+  });
+  return merged;
+}
+
+/**
+ * Centred moving average over a window in seconds
+ */
+function smooth(samples: IntervalSample[], window: number): number[] {
+  const values = samples.map(sample => typeof sample.value === 'number' && !isNaN(sample.value) ? sample.value : 0);
+  if (window <= 0) return values;
+
+  let from = 0;
+  let to = 0;
+  let sum = 0;
+  return samples.map(sample => {
+    while (to < samples.length && samples[to].time <= sample.time + window / 2) sum += values[to++];
+    while (samples[from].time < sample.time - window / 2) sum -= values[from++];
+    return sum / (to - from);
+  });
+}
+
+function meanAndDeviation(values: number[]): [number, number] {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+  return [mean, Math.sqrt(variance)];
+}
@@ -0,0 +1,193 @@
+/**
+ * KML Export
+ *
+ * Writes the route of a session as KML for Google Earth, where a `gx:Track` can be
+ * replayed along its timestamps. The track carries the metrics of every point as
+ * `ExtendedData` arrays and is split into sections styled by zone, laps become
+ * placemarks. KMZ files, the zipped variant, are built in the browser.
+ */
+
+import { type IFitData } from './fitFileParser';
+import { formatSecondsToTime } from './TimeSeriesTransformer';
+import { getRoutePoints, round, splitRouteByLap, splitRouteByZone, toPosition, type RoutePoint, type RouteSection } from './route';
+import { convertFieldValue, getPreferredFieldUnit, SI_UNITS, type UnitPreferences } from './units';
+import { createZipArchive } from './zipArchive';
+import { type IZone } from './zones';
+
+export interface KmlExportOptions {
+  /** Session to export, for multi-session files */
+  sessionIndex?: number;
+  /** Document name shown in Google Earth */
+  name?: string;
+  /** Fields written as `ExtendedData` arrays; fields no record has are left out */
+  fields?: string[];
+  /** Zones the track is split by, in `units`, e.g. `athlete.speedZones`; without zones the track is split per lap */
+  zones?: IZone[];
+  /** Field the zones are taken from (default: `heart_rate`) */
+  zoneField?: string;
+  /** Units of the extended data values and the zones (default: SI) */
+  units?: UnitPreferences;
+  /** Units of the fields in SI data, e.g. from `TrainingSession.getFieldUnit(field, SI_UNITS)`, shown in Google Earth */
+  fieldUnits?: Record<string, string>;
+}
+
+/** Heart rate, speed, stroke rate and power, as recorded by watches and boat computers */
+const DEFAULT_FIELDS = ['heart_rate', 'enhanced_speed', 'stroke rate', 'watt'];
+
+/** Colours of the zones from easy to hard, the last ones are used when there are fewer zones */
+const ZONE_COLORS = ['#94a3b8', '#4ade80', '#22d3ee', '#fb923c', '#ef4444', '#7c3aed'];
+const LAP_COLOR = '#f6e05e';
+const SCHEMA_ID = 'track-data';
+
+/**
+ * Convert a session to KML
+ *
+ * @param fitData - Parsed data, from any parser and in any units
+ * @param options - Session, fields, zones and units
+ * @returns KML document
+ *
+ * @example
+ * ```typescript
+ * const kml = toKml(fitData, {
+ *   zones: athlete.speedZones,
+ *   zoneField: 'enhanced_speed',
+ *   units: UNIT_SYSTEMS.metric
+ * });
+ * ```
+ */
+export function toKml(fitData: IFitData, options: KmlExportOptions = {}): string {
+  const units = options.units ?? SI_UNITS;
+  const points = getRoutePoints(fitData, options.sessionIndex ?? 0);
+  const fields = (options.fields ?? DEFAULT_FIELDS).filter(field => points.some(point => typeof point[field] === 'number'));
+  const zones = options.zones;
+  const sections = zones
+    ? splitRouteByZone(points, options.zoneField ?? 'heart_rate', zones, units)
+    : splitRouteByLap(points);
+
+  const styles = zones
+    ? zones.map((_, index) => lineStyle(`zone-${index}`, zoneColor(index, zones.length)))
+    : [lineStyle('lap', LAP_COLOR)];
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2" xmlns:gx="http://www.google.com/kml/ext/2.2">',
+    '<Document>',
+    `<name>${escapeXml(options.name ?? 'Activity')}</name>`,
+    ...styles,
+    lineStyle('no-zone', '#a0aec0'),
+    schema(fields, units, options.fieldUnits),
+    '<Folder>',
+    '<name>Track</name>',
+    ...sections.map(section => trackPlacemark(section, fields, units, zones)),
+    '</Folder>',
+    '<Folder>',
+    '<name>Laps</name>',
+    ...lapPlacemarks(points, units),
+    '</Folder>',
+    '</Document>',
+    '</kml>'
+  ].join('\n') + '\n';
+}
+
+/**
+ * Convert a session to a KMZ file: the KML document zipped as `doc.kml`
+ *
+ * @param fitData - Parsed data, from any parser and in any units
+ * @param options - Session, fields, zones and units
+ */
+export async function toKmz(fitData: IFitData, options: KmlExportOptions = {}): Promise<Blob> {
+  const kmz = await createZipArchive([{ name: 'doc.kml', data: toKml(fitData, options) }]);
+  return new Blob([kmz], { type: 'application/vnd.google-earth.kmz' });
+}
+
+function schema(fields: string[], units: UnitPreferences, fieldUnits: Record<string, string> = {}): string {
+  return [
+    `<Schema id="${SCHEMA_ID}">`,
+    ...fields.map(field => {
+      const unit = getPreferredFieldUnit(field, fieldUnits[field], units);
+      return `<gx:SimpleArrayField name="${escapeXml(field)}" type="float"><displayName>${escapeXml(unit ? `${field} (${unit})` : field)}</displayName></gx:SimpleArrayField>`;
+    }),
+    '</Schema>'
+  ].join('\n');
+}
+
+function trackPlacemark(section: RouteSection, fields: string[], units: UnitPreferences, zones?: IZone[]): string {
+  const zone = zones && section.zoneIndex !== undefined ? zones[section.zoneIndex] : undefined;
+  const style = zones ? (section.zoneIndex !== undefined ? `zone-${section.zoneIndex}` : 'no-zone') : 'lap';
+  const name = zones ? zone?.name ?? 'No zone' : `Lap ${section.lap}`;
+
+  return [
+    '<Placemark>',
+    `<name>${escapeXml(name)}</name>`,
+    `<styleUrl>#${style}</styleUrl>`,
+    '<gx:Track>',
+    '<altitudeMode>clampToGround</altitudeMode>',
+    ...section.points.map(point => `<when>${point.timestamp.toISOString()}</when>`),
+    ...section.points.map(point => `<gx:coord>${toPosition(point).join(' ')}</gx:coord>`),
+    '<ExtendedData>',
+    `<SchemaData schemaUrl="#${SCHEMA_ID}">`,
+    ...fields.map(field => [
+      `<gx:SimpleArrayData name="${escapeXml(field)}">`,
+      // Every point needs a value, missing values are left empty
+      ...section.points.map(point => `<gx:value>${typeof point[field] === 'number' ? round(convertFieldValue(field, point[field], units)) : ''}</gx:value>`),
+      '</gx:SimpleArrayData>'
+    ].join('\n')),
+    '</SchemaData>',
+    '</ExtendedData>',
+    '</gx:Track>',
+    '</Placemark>'
+  ].join('\n');
+}
+
+/**
+ * A placemark at the start of each lap, with its time and distance up to the
+ * start of the next lap
+ */
+function lapPlacemarks(points: RoutePoint[], units: UnitPreferences): string[] {
+  return splitRouteByLap(points).map(({ points: lapPoints, lap }) => {
+    const first = lapPoints[0];
+    const last = lapPoints[lapPoints.length - 1];
+    const description = [
+      typeof first.timer_time === 'number' && typeof last.timer_time === 'number'
+        ? `Time: ${formatSecondsToTime(last.timer_time - first.timer_time)}`
+        : undefined,
+      typeof first.distance === 'number' && typeof last.distance === 'number'
+        ? `Distance: ${round(convertFieldValue('distance', last.distance - first.distance, units))} ${getPreferredFieldUnit('distance', 'm', units)}`
+        : undefined
+    ].filter(Boolean).join('\n');
+
+    return [
+      '<Placemark>',
+      `<name>Lap ${lap}</name>`,
+      description ? `<description>${escapeXml(description)}</description>` : '',
+      `<TimeStamp><when>${first.timestamp.toISOString()}</when></TimeStamp>`,
+      `<Point><coordinates>${toPosition(first).join(',')}</coordinates></Point>`,
+      '</Placemark>'
+    ].filter(Boolean).join('\n');
+  });
+}
+
+function lineStyle(id: string, color: string): string {
+  return `<Style id="${id}"><LineStyle><color>${toKmlColor(color)}</color><width>4</width></LineStyle></Style>`;
+}
+
+function zoneColor(index: number, zoneCount: number): string {
+  const offset = Math.max(0, ZONE_COLORS.length - zoneCount);
+  return ZONE_COLORS[(offset + index) % ZONE_COLORS.length];
+}
+
+/**
+ * KML colours are `aabbggrr`
+ */
+function toKmlColor(hex: string): string {
+  const [r, g, b] = [1, 3, 5].map(start => hex.slice(start, start + 2));
+  return `ff${b}${g}${r}`;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,140 @@
+/**
+ * Mean-Maximal Curve
+ *
+ * The best average of a field for every window length, e.g. the highest power a
+ * paddler held for 10 seconds and for 20 minutes. Samples are resampled to one
+ * second by the time each value was held, so files with smart recording or
+ * several samples per second are weighted by time, not by sample count. Gaps in
+ * the recording, such as timer pauses and sensor dropouts, split the series: no
+ * window spans a gap.
+ */
+
+/**
+ * A value of a field at a point in time
+ */
+export interface MeanMaxSample {
+  timestamp: Date;
+  value: number;
+}
+
+/**
+ * A point of a mean-maximal curve
+ */
+export interface MeanMaxPoint {
+  /** Window length in seconds */
+  duration: number;
+  /** Best average over a window of this length */
+  value: number;
+  /** Start of the best window */
+  start: Date;
+}
+
+/**
+ * A curve with the name it is shown with, e.g. to overlay several sessions
+ */
+export interface MeanMaxCurve {
+  name: string;
+  field: string;
+  points: MeanMaxPoint[];
+}
+
+export interface MeanMaxOptions {
+  /**
+   * Longest time in seconds a value is held until the next sample; longer gaps
+   * split the series (default: 10)
+   */
+  maxGap?: number;
+  /** Timer pauses, e.g. from the event timeline; they split the series however short they are */
+  pauses?: Array<{ start: Date; end: Date }>;
+}
+
+/**
+ * A continuous stretch of samples resampled to one value per second
+ */
+interface SecondSeries {
+  start: Date;
+  values: Float64Array;
+}
+
+/**
+ * Calculate the mean-maximal curve of a series
+ *
+ * @param samples - Values in time order; samples without a number are left out
+ * @param durations - Window lengths in seconds, by default every second up to the
+ *   longest continuous stretch
+ * @param options - Gap handling
+ * @returns The best average per duration; durations longer than every continuous
+ *   stretch are left out
+ *
+ * @example
+ * ```typescript
+ * const curve = calculateMeanMaxCurve(records.map(r => ({ timestamp: r.timestamp, value: r.power })), [10, 60, 1200]);
+ * curve.forEach(point => console.log(`${point.duration} s: ${point.value.toFixed(0)} W`));
+ * ```
+ */
+export function calculateMeanMaxCurve(samples: MeanMaxSample[], durations?: number[], options: MeanMaxOptions = {}): MeanMaxPoint[] {
+  const series = resampleToSeconds(samples, options.maxGap ?? 10, options.pauses ?? []);
+  const longest = Math.max(0, ...series.map(stretch => stretch.values.length));
+  const windows = durations
+    ? [...new Set(durations.map(Math.round))].filter(duration => duration >= 1 && duration <= longest).sort((a, b) => a - b)
+    : Array.from({ length: longest }, (_, index) => index + 1);
+
+  const sums = series.map(stretch => prefixSums(stretch.values));
+  return windows.map(duration => {
+    let best = -Infinity;
+    let bestStart = series[0].start;
+    series.forEach((stretch, index) => {
+      const sum = sums[index];
+      for (let start = 0; start + duration < sum.length; start++) {
+        const total = sum[start + duration] - sum[start];
+        if (total > best) {
+          best = total;
+          bestStart = new Date(stretch.start.getTime() + start * 1000);
+        }
+      }
+    });
+    return { duration, value: best / duration, start: bestStart };
+  });
+}
+
+/**
+ * Split samples at gaps and resample each stretch to one second. Each value holds
+ * until the next sample, the last one for a second.
+ */
+function resampleToSeconds(samples: MeanMaxSample[], maxGap: number, pauses: Array<{ start: Date; end: Date }>): SecondSeries[] {
+  const valid = samples.filter(sample => typeof sample.value === 'number' && !isNaN(sample.value));
+  const stretches: MeanMaxSample[][] = [];
+  valid.forEach((sample, index) => {
+    const previous = valid[index - 1]?.timestamp.getTime() ?? -Infinity;
+    const time = sample.timestamp.getTime();
+    const paused = pauses.some(pause => pause.start.getTime() >= previous && pause.start.getTime() < time);
+    if (paused || (time - previous) / 1000 > maxGap) {
+      stretches.push([sample]);
+    } else {
+      stretches[stretches.length - 1].push(sample);
+    }
+  });
+
+  return stretches.map(stretch => {
+    const start = stretch[0].timestamp.getTime();
+    const offsets = stretch.map(sample => (sample.timestamp.getTime() - start) / 1000);
+    const length = Math.floor(offsets[offsets.length - 1] + 1);
+    const values = new Float64Array(length);
+
+    stretch.forEach((sample, index) => {
+      const from = offsets[index];
+      const to = Math.min(index + 1 < stretch.length ? offsets[index + 1] : from + 1, length);
+      // Spread the value over the seconds it was held in, by the share of each second
+      for (let second = Math.floor(from); second < to; second++) {
+        values[second] += sample.value * (Math.min(to, second + 1) - Math.max(from, second));
+      }
+    });
+    return { start: new Date(start), values };
+  });
+}
+
+function prefixSums(values: Float64Array): Float64Array {
+  const sums = new Float64Array(values.length + 1);
+  values.forEach((value, index) => sums[index + 1] = sums[index] + value);
+  return sums;
+}
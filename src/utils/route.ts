@@ -0,0 +1,135 @@
+/**
+ * Route
+ *
+ * The positioned records of a session and their split into sections per lap or
+ * per zone of a metric, shared by the map exports (GeoJSON, KML).
+ */
+
+import { type IFitData } from './fitFileParser';
+import { convertFieldValue, convertMessageUnits, type UnitPreferences } from './units';
+import { type IZone } from './zones';
+
+/**
+ * A positioned record in SI units, with the enhanced speed and altitude also in
+ * the plain `speed` and `altitude` fields
+ */
+export type RoutePoint = Record<string, unknown> & {
+  timestamp: Date;
+  position_lat: number;
+  position_long: number;
+  /** Speed in m/s */
+  speed?: number;
+  /** Altitude in meters */
+  altitude?: number;
+  /** Distance from the start of the session in meters */
+  distance?: number;
+  /** Seconds since the first record, excluding timer pauses */
+  timer_time?: number;
+  /** Lap number, starting at 1 */
+  lap: number;
+};
+
+/**
+ * A stretch of route; it ends with the first point of the next section, so the
+ * sections join up without gaps
+ */
+export interface RouteSection {
+  points: RoutePoint[];
+  /** Lap the section starts in */
+  lap: number;
+  /** Index of the zone the section is in, for sections split by zone */
+  zoneIndex?: number;
+}
+
+/**
+ * Get the positioned records of a session in SI units; records without a
+ * position are left out
+ *
+ * @param fitData - Parsed data, from any parser and in any units
+ * @param sessionIndex - Session, for multi-session files
+ */
+export function getRoutePoints(fitData: IFitData, sessionIndex: number = 0): RoutePoint[] {
+  const laps = fitData.activity.sessions[sessionIndex]?.laps ?? [];
+  return laps.flatMap((lap, lapIndex) => lap.records.map((record): Record<string, unknown> => {
+    const si = convertMessageUnits(record, fitData.units, true);
+    return {
+      ...si,
+      speed: si.enhanced_speed ?? si.speed,
+      altitude: si.enhanced_altitude ?? si.altitude,
+      lap: lapIndex + 1
+    };
+  })).filter((point): point is RoutePoint => typeof point.position_lat === 'number' && typeof point.position_long === 'number');
+}
+
+/**
+ * Split a route into one section per lap
+ */
+export function splitRouteByLap(points: RoutePoint[]): RouteSection[] {
+  const laps = new Map<number, RoutePoint[]>();
+  points.forEach(point => {
+    const lapPoints = laps.get(point.lap);
+    if (lapPoints) lapPoints.push(point);
+    else laps.set(point.lap, [point]);
+  });
+  return joinSections(Array.from(laps, ([lap, lapPoints]) => ({ points: lapPoints, lap })));
+}
+
+/**
+ * Split a route into runs of points in the same zone. Points without a value
+ * stay in the zone of the point before them.
+ *
+ * @param points - Route points
+ * @param field - Field the zones are taken from
+ * @param zones - Zones, in `units`
+ * @param units - Units the values are converted to before they are compared with the zones
+ *
+ * @example
+ * ```typescript
+ * const sections = splitRouteByZone(getRoutePoints(fitData), 'speed', athlete.speedZones, UNIT_SYSTEMS.metric);
+ * sections.forEach(section => console.log(athlete.speedZones[section.zoneIndex!]?.name, section.points.length));
+ * ```
+ */
+export function splitRouteByZone(points: RoutePoint[], field: string, zones: IZone[], units: UnitPreferences): RouteSection[] {
+  const sections: RouteSection[] = [];
+  let zoneIndex: number | undefined;
+
+  for (const point of points) {
+    const value = point[field];
+    if (typeof value === 'number' && !isNaN(value)) {
+      const converted = convertFieldValue(field, value, units);
+      const index = zones.findIndex(zone => converted >= zone.min && converted <= zone.max);
+      zoneIndex = index >= 0 ? index : undefined;
+    }
+    const current = sections[sections.length - 1];
+    if (current && current.zoneIndex === zoneIndex) {
+      current.points.push(point);
+    } else {
+      sections.push({ points: [point], lap: point.lap, zoneIndex });
+    }
+  }
+  return joinSections(sections);
+}
+
+/**
+ * Position of a point as `[longitude, latitude]`, or `[longitude, latitude, altitude]`
+ * with the altitude in meters, the order both GeoJSON and KML use
+ */
+export function toPosition(point: RoutePoint): number[] {
+  return typeof point.altitude === 'number' && !isNaN(point.altitude)
+    ? [point.position_long, point.position_lat, round(point.altitude)]
+    : [point.position_long, point.position_lat];
+}
+
+/**
+ * Round to three decimals, so exports don't carry float noise
+ */
+export function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function joinSections(sections: RouteSection[]): RouteSection[] {
+  return sections.map((section, index) => {
+    const next = sections[index + 1]?.points[0];
+    return next ? { ...section, points: [...section.points, next] } : section;
+  });
+}
@@ -0,0 +1,147 @@
+/**
+ * Sensor Inventory
+ *
+ * Lists the devices of an activity from its `device_info` messages: the recording
+ * device and every sensor paired with it, such as heart rate straps, power meters
+ * and boat computers. Devices write these messages at the start and end of a
+ * recording and often in between, so battery voltage and status can be followed
+ * over the session to catch failing batteries before races.
+ */
+
+import { type FitDeviceInfoMessage } from './fitDecoder';
+import { type IFitData } from './fitFileParser';
+
+/**
+ * Battery state of a device at one point in time
+ */
+export interface BatteryReading {
+  timestamp?: Date;
+  /** Voltage in volts */
+  voltage?: number;
+  status?: string;
+  /** Charge in percent */
+  level?: number;
+}
+
+/**
+ * A device, with the fields of all its `device_info` messages combined
+ */
+export interface SensorDevice {
+  /** Index of the device in the file; 0 is the device that recorded the file */
+  deviceIndex?: number;
+  /** ANT+ device type or local device type, e.g. `heart_rate` or `bike_power` */
+  deviceType?: string;
+  manufacturer?: string;
+  /** Product name, or the product number when the device gives no name */
+  product?: string;
+  serialNumber?: number;
+  softwareVersion?: number;
+  hardwareVersion?: number;
+  /** How the sensor is connected, e.g. `antplus` or `bluetooth_low_energy` */
+  sourceType?: string;
+  antDeviceNumber?: number;
+  /** Total operating time of the device in seconds */
+  cumOperatingTime?: number;
+  /** Battery readings, oldest first */
+  battery: BatteryReading[];
+  /** Why the battery needs attention, undefined when it looks fine */
+  batteryWarning?: string;
+}
+
+/** Battery status values that call for a new battery */
+const LOW_BATTERY_STATUSES = ['low', 'critical'];
+/** Battery level in percent below which a battery is reported */
+const LOW_BATTERY_LEVEL = 20;
+
+/**
+ * List the devices of an activity
+ *
+ * Messages are combined per device by serial number, ANT device number or device
+ * index, so merged recordings of several devices keep their devices apart.
+ *
+ * @param fitData - Parsed data
+ * @returns The devices, the recording device first
+ *
+ * @example
+ * ```typescript
+ * const devices = getSensorInventory(fitData);
+ * devices.filter(device => device.batteryWarning)
+ *   .forEach(device => console.log(`${device.deviceType} ${device.serialNumber}: ${device.batteryWarning}`));
+ * ```
+ */
+export function getSensorInventory(fitData: IFitData): SensorDevice[] {
+  const groups: FitDeviceInfoMessage[][] = [];
+  const deviceInfos = [...fitData.activity.device_infos]
+    .sort((a, b) => (a.timestamp?.getTime() ?? 0) - (b.timestamp?.getTime() ?? 0));
+
+  for (const deviceInfo of deviceInfos) {
+    const group = groups.find(messages => messages.some(message => isSameDevice(message, deviceInfo)));
+    if (group) {
+      group.push(deviceInfo);
+    } else {
+      groups.push([deviceInfo]);
+    }
+  }
+
+  return groups
+    .map(toSensorDevice)
+    .sort((a, b) => (a.deviceIndex ?? Infinity) - (b.deviceIndex ?? Infinity));
+}
+
+function isSameDevice(a: FitDeviceInfoMessage, b: FitDeviceInfoMessage): boolean {
+  if (a.serial_number !== undefined && b.serial_number !== undefined) {
+    return a.serial_number === b.serial_number;
+  }
+  if (a.ant_device_number !== undefined && b.ant_device_number !== undefined) {
+    return a.ant_device_number === b.ant_device_number && a.device_type === b.device_type;
+  }
+  // Without identifiers the device index decides, unless manufacturer or product differ
+  const conflicts = (field: keyof FitDeviceInfoMessage) =>
+    a[field] !== undefined && b[field] !== undefined && a[field] !== b[field];
+  return a.device_index !== undefined && a.device_index === b.device_index &&
+    !conflicts('manufacturer') && !conflicts('product');
+}
+
+function toSensorDevice(messages: FitDeviceInfoMessage[]): SensorDevice {
+  // Later messages carry the latest values
+  const latest = <K extends keyof FitDeviceInfoMessage>(field: K): FitDeviceInfoMessage[K] | undefined =>
+    messages.map(message => message[field]).filter(value => value !== undefined).pop();
+  const text = (value: unknown) => value !== undefined ? String(value) : undefined;
+
+  const battery = messages
+    .filter(message => message.battery_voltage !== undefined || message.battery_status !== undefined || message.battery_level !== undefined)
+    .map(message => ({
+      timestamp: message.timestamp,
+      voltage: message.battery_voltage,
+      status: text(message.battery_status),
+      level: message.battery_level
+    }));
+
+  const device: SensorDevice = {
+    deviceIndex: latest('device_index'),
+    deviceType: text(latest('device_type')),
+    manufacturer: text(latest('manufacturer')),
+    product: latest('product_name') ?? text(latest('product')),
+    serialNumber: latest('serial_number'),
+    softwareVersion: latest('software_version'),
+    hardwareVersion: latest('hardware_version'),
+    sourceType: text(latest('source_type')),
+    antDeviceNumber: latest('ant_device_number'),
+    cumOperatingTime: latest('cum_operating_time'),
+    battery
+  };
+  device.batteryWarning = getBatteryWarning(battery);
+  return device;
+}
+
+function getBatteryWarning(battery: BatteryReading[]): string | undefined {
+  const status = battery.map(reading => reading.status).filter(value => value !== undefined).pop();
+  if (status && LOW_BATTERY_STATUSES.includes(status)) {
+    return `Battery ${status}`;
+  }
+  const level = battery.map(reading => reading.level).filter(value => value !== undefined).pop();
+  if (level !== undefined && level < LOW_BATTERY_LEVEL) {
+    return `Battery at ${level}%`;
+  }
+  return undefined;
+}
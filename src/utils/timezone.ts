@@ -0,0 +1,131 @@
+/**
+ * Timezone
+ *
+ * FIT timestamps are UTC. Where the session happened follows from the activity
+ * message, whose `local_timestamp` is the same moment as `timestamp` written in the
+ * device's wall-clock time. Files without it are placed by their first GPS position
+ * in an offline table of timezone boundaries. Times shown to the user are rendered
+ * in that zone rather than in the zone of the browser.
+ */
+
+import { type IFitData } from './fitFileParser';
+import { TIME_ZONE_BOUNDARIES } from './timezoneBoundaries';
+
+/**
+ * Timezone of an activity
+ */
+export interface ActivityTimeZone {
+  /** Minutes east of UTC at the start of the activity */
+  offset: number;
+  /** IANA time zone name, when the zone was found from the position */
+  timeZone?: string;
+  /**
+   * `activity` when taken from the activity message, `position` when looked up from
+   * the GPS position, `browser` when neither was available
+   */
+  source: 'activity' | 'position' | 'browser';
+}
+
+/** Offsets are whole quarter hours, anything else is clock drift */
+const OFFSET_STEP_MINUTES = 15;
+/** Largest offset in use, UTC+14 */
+const MAX_OFFSET_MINUTES = 14 * 60;
+
+/**
+ * Get the timezone an activity was recorded in
+ *
+ * @param fitData - Parsed FIT data
+ * @param sessionIndex - Session whose position is used when the activity message has no local time (default: 0)
+ * @returns The timezone, the browser's zone when it can't be derived from the file
+ *
+ * @example
+ * ```typescript
+ * const timeZone = getActivityTimeZone(await parseFitData(file));
+ * console.log(formatUtcOffset(timeZone.offset)); // "UTC+02:00"
+ * ```
+ */
+export function getActivityTimeZone(fitData: IFitData, sessionIndex: number = 0): ActivityTimeZone {
+  const { timestamp, local_timestamp } = fitData.activity;
+  if (timestamp instanceof Date && local_timestamp instanceof Date) {
+    const offset = roundOffset((local_timestamp.getTime() - timestamp.getTime()) / 60000);
+    if (Math.abs(offset) <= MAX_OFFSET_MINUTES) {
+      return { offset, source: 'activity' };
+    }
+  }
+
+  const sessions = fitData.activity.sessions;
+  const records = (sessions[sessionIndex] ?? sessions[0])?.laps.flatMap(lap => lap.records) ?? [];
+  const positioned = records.find(record =>
+    typeof record.position_lat === 'number' && typeof record.position_long === 'number'
+  );
+  if (positioned) {
+    return getTimeZoneAtPosition(positioned.position_lat!, positioned.position_long!, positioned.timestamp);
+  }
+
+  const start = records[0]?.timestamp ?? new Date();
+  return { offset: -start.getTimezoneOffset(), source: 'browser' };
+}
+
+/**
+ * Look up the timezone at a position, with the daylight saving time in effect at
+ * the given date. Positions outside the boundary table get the nautical zone of
+ * their longitude.
+ *
+ * @param latitude - Latitude in degrees
+ * @param longitude - Longitude in degrees
+ * @param date - Moment the offset is calculated for
+ */
+export function getTimeZoneAtPosition(latitude: number, longitude: number, date: Date): ActivityTimeZone {
+  const boundary = TIME_ZONE_BOUNDARIES.find(({ boxes }) => boxes.some(([south, west, north, east]) =>
+    latitude >= south && latitude <= north && longitude >= west && longitude <= east
+  ));
+  const offset = boundary ? getTimeZoneOffset(boundary.timeZone, date) : undefined;
+  if (boundary && offset !== undefined) {
+    return { offset, timeZone: boundary.timeZone, source: 'position' };
+  }
+  return { offset: Math.round(longitude / 15) * 60, source: 'position' };
+}
+
+/**
+ * Get the offset of an IANA time zone from UTC in minutes at a moment, or
+ * undefined when the runtime doesn't know the zone
+ */
+export function getTimeZoneOffset(timeZone: string, date: Date): number | undefined {
+  try {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric', month: 'numeric', day: 'numeric',
+      hour: 'numeric', minute: 'numeric', second: 'numeric'
+    }).formatToParts(date);
+    const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+    const wallClock = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+    return roundOffset((wallClock - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+  } catch {
+    // Unknown time zone, the caller falls back to the longitude
+    return undefined;
+  }
+}
+
+/**
+ * Shift a UTC moment to the wall-clock time of a timezone. The UTC fields of the
+ * result (`getUTCHours()`, `toISOString()`) read as local time, the way FIT writes
+ * `local_timestamp`.
+ */
+export function toLocalTime(date: Date, timeZone: ActivityTimeZone): Date {
+  return new Date(date.getTime() + timeZone.offset * 60000);
+}
+
+/**
+ * Format an offset in minutes east of UTC, e.g. `UTC+05:30`
+ */
+export function formatUtcOffset(offset: number): string {
+  const sign = offset < 0 ? '-' : '+';
+  const minutes = Math.abs(offset);
+  const hours = Math.floor(minutes / 60).toString().padStart(2, '0');
+  return `UTC${sign}${hours}:${(minutes % 60).toString().padStart(2, '0')}`;
+}
+
+function roundOffset(minutes: number): number {
+  return Math.round(minutes / OFFSET_STEP_MINUTES) * OFFSET_STEP_MINUTES;
+}
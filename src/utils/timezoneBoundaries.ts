@@ -0,0 +1,111 @@
+/**
+ * Timezone Boundaries
+ *
+ * Coarse, offline timezone boundaries for placing an activity from its GPS
+ * position. Every zone is a set of latitude/longitude boxes, checked in order, so
+ * small zones are listed before the large zones around them. Borders are only
+ * approximated; activities near a border may get the neighbouring zone.
+ * Positions outside all boxes fall back to the nautical zone of their longitude.
+ */
+
+export interface TimeZoneBoundary {
+  /** IANA time zone name, e.g. `Europe/Stockholm` */
+  timeZone: string;
+  /** Boxes as [south, west, north, east] in degrees */
+  boxes: Array<[number, number, number, number]>;
+}
+
+export const TIME_ZONE_BOUNDARIES: TimeZoneBoundary[] = [
+  // Europe
+  { timeZone: 'Atlantic/Reykjavik', boxes: [[63, -25, 67, -13]] },
+  { timeZone: 'Atlantic/Canary', boxes: [[27, -19, 29.5, -13]] },
+  { timeZone: 'Atlantic/Azores', boxes: [[36.5, -31.5, 40, -24.5]] },
+  { timeZone: 'Europe/Lisbon', boxes: [[36.8, -9.6, 42.2, -6.2], [32.4, -17.5, 33.2, -16.2]] },
+  { timeZone: 'Europe/Dublin', boxes: [[51.3, -10.7, 55.4, -5.9]] },
+  { timeZone: 'Europe/London', boxes: [[49.8, -8.2, 61, 1.8]] },
+  // Finland follows its eastern border, so Vyborg and St Petersburg stay in Moscow time,
+  // and its western border, so the Swedish coast stays in Stockholm time
+  { timeZone: 'Europe/Helsinki', boxes: [
+    [59.7, 19.4, 60.6, 27.8], [60.6, 19.4, 60.9, 28.3], [60.9, 19.4, 61.3, 28.9], [61.3, 19.4, 62, 29.6],
+    [62, 20, 63.5, 31.5], [63.5, 21, 64.5, 30.5], [64.5, 23.5, 65.7, 30.1], [65.7, 24.13, 67.5, 29.8],
+    [67.5, 23.6, 69, 28.8], [68.5, 21, 69, 23.6], [69, 25.8, 70.1, 28.9]
+  ] },
+  { timeZone: 'Europe/Tallinn', boxes: [[57.5, 21.7, 59.7, 28.2]] },
+  { timeZone: 'Europe/Riga', boxes: [[55.6, 20.9, 58.1, 28.3]] },
+  { timeZone: 'Europe/Vilnius', boxes: [[53.9, 20.9, 56.5, 26.9]] },
+  { timeZone: 'Europe/Kaliningrad', boxes: [[54.3, 19.6, 55.3, 22.9]] },
+  { timeZone: 'Europe/Minsk', boxes: [[51.2, 23.1, 56.2, 32.8]] },
+  { timeZone: 'Europe/Kyiv', boxes: [[44.3, 22.1, 52.4, 40.3]] },
+  { timeZone: 'Europe/Chisinau', boxes: [[45.4, 26.6, 48.5, 30.2]] },
+  { timeZone: 'Europe/Bucharest', boxes: [[43.6, 20.2, 48.3, 29.8]] },
+  { timeZone: 'Europe/Sofia', boxes: [[41.2, 22.3, 44.2, 28.7]] },
+  { timeZone: 'Europe/Athens', boxes: [[34.8, 19.3, 41.8, 28.3]] },
+  { timeZone: 'Asia/Nicosia', boxes: [[34.5, 32.2, 35.7, 34.6]] },
+  { timeZone: 'Europe/Istanbul', boxes: [[35.8, 25.6, 42.2, 44.9]] },
+  { timeZone: 'Europe/Moscow', boxes: [[41, 27, 70, 50]] },
+  { timeZone: 'Europe/Stockholm', boxes: [[55.3, 10.9, 69.1, 24.2]] },
+  { timeZone: 'Europe/Oslo', boxes: [[57.9, 4.5, 71.3, 31.2]] },
+  { timeZone: 'Europe/Copenhagen', boxes: [[54.5, 8, 57.8, 15.2]] },
+  { timeZone: 'Europe/Amsterdam', boxes: [[51.3, 3.3, 53.6, 7.3]] },
+  { timeZone: 'Europe/Brussels', boxes: [[49.5, 2.5, 51.3, 6.4]] },
+  { timeZone: 'Europe/Madrid', boxes: [[36, -9.4, 43.8, 3.4], [38.6, 1.1, 40.1, 4.4]] },
+  { timeZone: 'Europe/Paris', boxes: [[42.3, -4.8, 51.1, 8.2], [41.3, 8.5, 43.1, 9.6]] },
+  { timeZone: 'Europe/Rome', boxes: [[36.6, 6.6, 47.1, 18.6]] },
+  { timeZone: 'Europe/Berlin', boxes: [[47.2, 5.8, 55.1, 15.1]] },
+  { timeZone: 'Europe/Warsaw', boxes: [[49, 14.1, 54.9, 24.2]] },
+  { timeZone: 'Europe/Vienna', boxes: [[35, -5, 50, 22]] },
+
+  // Africa and the Middle East
+  { timeZone: 'Africa/Casablanca', boxes: [[27.6, -13.2, 35.9, -1]] },
+  { timeZone: 'Africa/Cairo', boxes: [[22, 24.7, 31.7, 36.9]] },
+  { timeZone: 'Asia/Jerusalem', boxes: [[29.5, 34.2, 33.3, 35.9]] },
+  { timeZone: 'Asia/Dubai', boxes: [[22.6, 51.5, 26.1, 56.4]] },
+  { timeZone: 'Asia/Riyadh', boxes: [[12, 34.5, 32.2, 55.7]] },
+  { timeZone: 'Asia/Tehran', boxes: [[25, 44, 39.8, 63.3]] },
+  { timeZone: 'Africa/Johannesburg', boxes: [[-35, 16.4, -22.1, 32.9]] },
+  { timeZone: 'Africa/Nairobi', boxes: [[-4.7, 33.9, 5.1, 41.9]] },
+  { timeZone: 'Africa/Lagos', boxes: [[-5, 2.6, 23.5, 15.7]] },
+
+  // Asia and Oceania
+  { timeZone: 'Asia/Kolkata', boxes: [[6.7, 68.1, 35.5, 97.4]] },
+  { timeZone: 'Asia/Bangkok', boxes: [[5.6, 97.3, 23.4, 109.5]] },
+  { timeZone: 'Asia/Singapore', boxes: [[1.1, 103.6, 1.5, 104.1]] },
+  { timeZone: 'Asia/Jakarta', boxes: [[-11, 95, 6, 115]] },
+  { timeZone: 'Asia/Manila', boxes: [[4.6, 116.9, 21.1, 126.6]] },
+  { timeZone: 'Asia/Hong_Kong', boxes: [[22.1, 113.8, 22.6, 114.5]] },
+  { timeZone: 'Asia/Taipei', boxes: [[21.9, 119.3, 25.4, 122.1]] },
+  { timeZone: 'Asia/Seoul', boxes: [[33, 124.5, 38.7, 130.9]] },
+  { timeZone: 'Asia/Tokyo', boxes: [[24, 122.9, 45.6, 146]] },
+  { timeZone: 'Asia/Shanghai', boxes: [[18, 73.5, 53.6, 135]] },
+  { timeZone: 'Australia/Perth', boxes: [[-35.2, 112.9, -13.7, 129]] },
+  { timeZone: 'Australia/Darwin', boxes: [[-26, 129, -10.9, 138]] },
+  { timeZone: 'Australia/Adelaide', boxes: [[-38.1, 129, -26, 141]] },
+  { timeZone: 'Australia/Brisbane', boxes: [[-29, 138, -10, 154]] },
+  { timeZone: 'Australia/Hobart', boxes: [[-43.7, 143.8, -39.5, 148.5]] },
+  { timeZone: 'Australia/Sydney', boxes: [[-37.6, 141, -28.1, 154]] },
+  { timeZone: 'Australia/Melbourne', boxes: [[-39.2, 141, -33.9, 150]] },
+  { timeZone: 'Pacific/Auckland', boxes: [[-47.4, 166.3, -34.3, 178.7]] },
+  { timeZone: 'Pacific/Honolulu', boxes: [[18.8, -160.5, 22.3, -154.7]] },
+
+  // Americas
+  { timeZone: 'America/Anchorage', boxes: [[51, -170, 71.5, -141]] },
+  { timeZone: 'America/St_Johns', boxes: [[46.6, -59.5, 51.7, -52.6]] },
+  { timeZone: 'America/Halifax', boxes: [[43.3, -67, 47.1, -59.6]] },
+  { timeZone: 'America/Phoenix', boxes: [[31.3, -114.8, 37, -109]] },
+  { timeZone: 'America/Vancouver', boxes: [[48.2, -139, 60, -120]] },
+  { timeZone: 'America/Los_Angeles', boxes: [[32.5, -125, 49, -114.1]] },
+  { timeZone: 'America/Edmonton', boxes: [[49, -120, 60, -110]] },
+  { timeZone: 'America/Denver', boxes: [[31.3, -114.1, 49, -102]] },
+  { timeZone: 'America/Winnipeg', boxes: [[49, -102, 60, -89]] },
+  { timeZone: 'America/Chicago', boxes: [[25.8, -102, 49.4, -87.5]] },
+  { timeZone: 'America/Toronto', boxes: [[41.7, -95, 56, -74.3]] },
+  { timeZone: 'America/New_York', boxes: [[24.5, -87.5, 47.5, -66.9]] },
+  { timeZone: 'America/Havana', boxes: [[19.8, -85, 23.3, -74.1]] },
+  { timeZone: 'America/Mexico_City', boxes: [[14.5, -117.1, 32.7, -86.7]] },
+  { timeZone: 'America/Bogota', boxes: [[-4.2, -79, 12.5, -66.9]] },
+  { timeZone: 'America/Lima', boxes: [[-18.4, -81.4, -0.1, -68.7]] },
+  { timeZone: 'America/Santiago', boxes: [[-56, -75.7, -17.5, -68.5]] },
+  { timeZone: 'America/Argentina/Buenos_Aires', boxes: [[-55.1, -73.6, -21.8, -53.6]] },
+  { timeZone: 'America/Sao_Paulo', boxes: [[-33.8, -53.6, -14, -34.8]] },
+  { timeZone: 'America/Manaus', boxes: [[-14, -73.9, 5.3, -44]] }
+];
@@ -0,0 +1,152 @@
+/**
+ * Training Activity
+ *
+ * Gives access to every session of a parsed file. Multi-session files (a warm-up
+ * followed by a race) and multisport files (brick workouts, triathlons) contain
+ * several sessions; multisport devices also record the transitions between sports
+ * as sessions of their own with the sport `transition`.
+ */
+
+import { type IFitData, type IFitSession } from "./fitFileParser";
+import { TrainingSession } from "./trainingSession";
+
+/**
+ * Short description of a session, e.g. for a session switcher
+ */
+export interface SessionOverview {
+  index: number;
+  sport: string;
+  subSport?: string;
+  startTime?: Date;
+  endTime?: Date;
+  totalTimerTime?: number;
+  totalDistance?: number;
+  /** True for the transition sessions recorded by multisport devices */
+  isTransition: boolean;
+}
+
+/**
+ * The change from one sport session to the next
+ */
+export interface SessionTransition {
+  fromSessionIndex: number;
+  toSessionIndex: number;
+  fromSport: string;
+  toSport: string;
+  /** End of the session before the transition */
+  startTime: Date;
+  /** Start of the session after the transition */
+  endTime: Date;
+  /** Duration of the transition in seconds */
+  duration: number;
+  /** Index of the transition session, when the device recorded one */
+  transitionSessionIndex?: number;
+}
+
+const TRANSITION_SPORT = 'transition';
+
+/**
+ * All sessions of a parsed file with the transitions between them
+ *
+ * @example
+ * ```typescript
+ * const activity = new TrainingActivity(await parseFitData(buffer));
+ * if (activity.isMultisport()) {
+ *   activity.getTransitions().forEach(t => console.log(`${t.fromSport} → ${t.toSport}: ${t.duration}s`));
+ * }
+ * const bikeLeg = activity.getSession(2);
+ * ```
+ */
+export class TrainingActivity {
+  private fitData: IFitData;
+  private sessions: IFitSession[];
+
+  constructor(fitData: IFitData) {
+    this.fitData = fitData;
+    this.sessions = fitData.activity.sessions;
+  }
+
+  get sessionCount(): number {
+    return this.sessions.length;
+  }
+
+  /**
+   * Check whether the sessions cover more than one sport
+   */
+  isMultisport(): boolean {
+    const sports = new Set(this.getSessionOverviews()
+      .filter(session => !session.isTransition)
+      .map(session => session.sport));
+    return sports.size > 1;
+  }
+
+  /**
+   * Analyse a single session
+   */
+  getSession(index: number): TrainingSession {
+    if (index < 0 || index >= this.sessions.length) {
+      throw new Error(`Session ${index} does not exist, the file has ${this.sessions.length} sessions.`);
+    }
+    return new TrainingSession(this.fitData, index);
+  }
+
+  getSessionOverviews(): SessionOverview[] {
+    return this.sessions.map((session, index) => ({
+      index,
+      sport: String(session.sport ?? 'generic'),
+      subSport: session.sub_sport !== undefined ? String(session.sub_sport) : undefined,
+      startTime: session.start_time,
+      endTime: getSessionEnd(session),
+      totalTimerTime: session.total_timer_time,
+      totalDistance: session.total_distance,
+      isTransition: session.sport === TRANSITION_SPORT
+    }));
+  }
+
+  /**
+   * Get the transitions between consecutive sport sessions. The transition time runs
+   * from the end of one sport session to the start of the next; a transition session
+   * in between is referenced by its index.
+   */
+  getTransitions(): SessionTransition[] {
+    const overviews = this.getSessionOverviews();
+    const sportSessions = overviews.filter(session => !session.isTransition);
+    const transitions: SessionTransition[] = [];
+
+    for (let i = 1; i < sportSessions.length; i++) {
+      const from = sportSessions[i - 1];
+      const to = sportSessions[i];
+      const startTime = from.endTime;
+      const endTime = to.startTime;
+      if (!startTime || !endTime) continue;
+
+      const transitionSession = overviews.find(session =>
+        session.isTransition && session.index > from.index && session.index < to.index
+      );
+
+      transitions.push({
+        fromSessionIndex: from.index,
+        toSessionIndex: to.index,
+        fromSport: from.sport,
+        toSport: to.sport,
+        startTime,
+        endTime,
+        duration: Math.max(0, (endTime.getTime() - startTime.getTime()) / 1000),
+        transitionSessionIndex: transitionSession?.index
+      });
+    }
+
+    return transitions;
+  }
+}
+
+/**
+ * End of a session: its timestamp, or the start plus the elapsed time
+ */
+function getSessionEnd(session: IFitSession): Date | undefined {
+  if (session.timestamp) return session.timestamp;
+  if (session.start_time && session.total_elapsed_time !== undefined) {
+    return new Date(session.start_time.getTime() + session.total_elapsed_time * 1000);
+  }
+  return undefined;
+}
@@ -6,7 +6,54 @@
  * functions for common fitness metrics.
  */
 
-import { type IFitData } from "./fitFileParser";
+import { type IFitData, type IFitLap, type IFitRecord, type IFitSession } from "./fitFileParser";
+import { calculateDistance } from "./geo";
+import { FieldRegistry } from "./fieldRegistry";
+import { type FieldSource } from "./activityMerge";
+import { cropActivity, splitActivity } from "./activityCrop";
+import {
+  buildBeatSeries,
+  calculateRollingDfaAlpha1,
+  calculateTimeDomainMetrics,
+  extractRRIntervals,
+  findAerobicThresholdCrossings,
+  getRecordingStart,
+  sliceRRIntervals,
+  type DfaAlpha1Options,
+  type HrvAnalysis,
+  type RRInterval
+} from "./hrv";
+import { convertMessageUnits, SI_UNITS, speedToPace, type UnitPreferences } from "./units";
+import { exportRecordsToCsv, type CsvExportOptions } from "./csvExport";
+import { toGeoJSON, type GeoJsonExportOptions, type GeoJsonFeatureCollection } from "./geoJsonExport";
+import { toKml, toKmz, type KmlExportOptions } from "./kmlExport";
+import { getSensorInventory, type SensorDevice } from "./sensorInventory";
+import { buildEventTimeline, isPaused, type EventTimeline, type EventTimelineOptions } from "./eventTimeline";
+import {
+  getLapSegments,
+  getRecordedWorkout,
+  getWorkoutCompliance,
+  type PlannedWorkout,
+  type WorkoutCompliance,
+  type WorkoutComplianceOptions
+} from "./workoutPlan";
+import { calculateMeanMaxCurve, type MeanMaxOptions, type MeanMaxPoint } from "./meanMax";
+import {
+  calculateWPrimeBalance,
+  fitCriticalPowerModel,
+  getCriticalPowerDurations,
+  type CriticalPowerFitOptions,
+  type CriticalPowerModel,
+  type WPrimeBalanceOptions
+} from "./criticalPower";
+import {
+  findIntervalThresholds,
+  getSeparationConfidence,
+  segmentIntervals,
+  type IntervalSegment,
+  type IntervalSegmentType
+} from "./intervalDetection";
+import { DEFAULT_BEST_EFFORT_DISTANCES, findBestEfforts, type BestEffort, type BestEffortOptions } from "./bestEfforts";
 import { 
   type IZone, 
   type IZoneDistributionItem, 
@@ -89,12 +136,12 @@ export interface PowerZones {
  * GPS/Position analysis results
  */
 export interface PositionAnalysis {
-  totalDistance: number;
-  avgSpeed: number;
-  maxSpeed: number;
+  totalDistance: number;  // m
+  avgSpeed: number;       // m/s
+  maxSpeed: number;       // m/s
   avgPace: number;        // min/km
-  totalAscent: number;
-  totalDescent: number;
+  totalAscent: number;    // m
+  totalDescent: number;   // m
   elevationGain: number;
   elevationLoss: number;
   bounds: {
@@ -144,14 +191,6 @@ export interface TrainingInterval {
   timeSeries: TimeSeriesPoint[];
 }
 
-type fieldDescription =  {
-        field_name: string,
-        units: string,
- //       developer_data_index: number,
- //       field_definition_number: number,
- //       fit_base_type_id: number,
-      }
-
 /**
  * Interval analysis summary
  */
@@ -170,6 +209,67 @@ export interface IntervalAnalysis {
   confidence: number; // 0-1 score for detection quality
 }
 
+/**
+ * A lap with the range of its records and statistics recomputed from them
+ */
+export interface LapAnalysis {
+  /** Index of the lap in the session */
+  index: number;
+  /** The lap message, without its records */
+  lap: Omit<IFitLap, 'records'>;
+  /** Range of the lap's records in `getAllRecords()`, both inclusive */
+  startIndex: number;
+  endIndex: number;
+  startTime: Date;
+  endTime: Date;
+  elapsedTime: number; // s, until the next lap starts
+  timerTime: number;   // s, without timer pauses
+  distance?: number;   // m
+  /** Statistics of each numeric field over the lap's records */
+  statistics: Record<string, StatisticalSummary>;
+  /** Time in the zones of each field zones were given for */
+  zoneDistributions: Record<string, IZoneDistributionItem[]>;
+  /** Change against the previous lap, null for the first lap */
+  deltas: LapDeltas | null;
+}
+
+/**
+ * Change of a lap against the previous lap
+ */
+export interface LapDeltas {
+  timerTime: number;
+  distance?: number;
+  /** Change of the average of each field both laps have */
+  means: Record<string, number>;
+}
+
+export interface LapAnalysisOptions {
+  /** Fields to calculate statistics for, by default every numeric field but the times and positions */
+  fields?: string[];
+  /** Zones by field name, e.g. `{ heart_rate: hrZones }` */
+  zones?: Record<string, IZone[]>;
+}
+
+/** Fields left out of the lap statistics by default */
+const LAP_EXCLUDED_FIELDS = ['timestamp', 'elapsed_time', 'timer_time', 'position_lat', 'position_long'];
+
+/** Channels each interval detection method uses, in order of preference */
+const INTERVAL_FIELDS: Record<'power' | 'heartRate' | 'speed', string[]> = {
+  power: ['power', 'watt'],
+  heartRate: ['heart_rate'],
+  speed: ['enhanced_speed', 'speed']
+};
+
+/** Interval types of the lap intensities, for manual detection */
+const LAP_INTENSITY_TYPES: Record<string, IntervalSegmentType> = {
+  active: 'work',
+  interval: 'work',
+  rest: 'rest',
+  recovery: 'rest',
+  warmup: 'warmup',
+  cooldown: 'cooldown'
+};
+
 /**
  * Comprehensive Training Session Data Analyzer
  * 
@@ -177,9 +277,9 @@ export interface IntervalAnalysis {
  */
 export class TrainingSession {
   private fitData: IFitData;
-  private records: Array<Record<string, any>>;
-  private sessionData: Record<string, any>;
-  private field_descriptions: fieldDescription[];
+  private records: Array<IFitRecord & Record<string, any>>;
+  private sessionData: Partial<IFitSession>;
+  private fieldRegistry: FieldRegistry;
   
 
   constructor(fitData: IFitData, sessionIndex: number = 0) {
@@ -190,55 +290,16 @@ export class TrainingSession {
     
     // Extract records (detailed time-series data)
     this.records = this.extractRecords(sessionIndex);
-    // @ts-ignore
-    this.field_descriptions = fitData.activity?.field_descriptions || [];
-
-    //add field descriptions for standard fields
-    this.field_descriptions.push(
-      { field_name: "timestamp", units: "s" },
-      { field_name: "timer_time", units: "s" },
-      { field_name: "positionLat", units: "degrees" },
-      { field_name: "positionLong", units: "degrees" },
-      { field_name: "altitude", units: "m" },
-      { field_name: "heart_rate", units: "bpm" },
-      { field_name: "distance", units: "km" },
-      { field_name: "enhanced_speed", units: "km/h" },
-      { field_name: "timer_time", units: "s" },
-      { field_name: "speed", units: "km/h" },
-      { field_name: "power", units: "watts" },
-      { field_name: "cadence", units: "rpm" },
-      { field_name: "position_lat", units: "degrees" },
-      { field_name: "position_long", units: "degrees" },
-      { field_name: "battery_level", units: "%" },
-      { field_name: "start_time", units: "" },
-      { field_name: "start_position_lat", units: "degrees" },
-      { field_name: "start_position_long", units: "degrees" },
-      { field_name: "total_timer_time", units: "s" },
-      { field_name: "total_distance", units: "km" },
-      { field_name: "enhanced_avg_speed", units: "km/h" },
-      { field_name: "enhanced_max_speed", units: "km/h" },
-      { field_name: "total_calories", units: "kcal" },
-      { field_name: "event_type", units: "" },
-      { field_name: "sport", units: "" },
-      { field_name: "sub_sport", units: "" },
-      { field_name: "avg_heart_rate", units: "bpm" },
-      { field_name: "max_heart_rate", units: "bpm" },
-      { field_name: "total_training_effect", units: "" },
-      { field_name: "total_anaerobic_effect", units: "" },
-      { field_name: "stroke rate avg", units: "Strokes/Min" },
-      { field_name: "average watt", units: "Joule/S" },
-      { field_name: "average balance", units: "Power Disb. [%]" },
-      { field_name: "avg hipRot", units: "Degrees/s" },
-      { field_name: "avg boatJump", units: "Degrees/s" },
-      { field_name: "total strokes", units: "Stroke" },
-      { field_name: "avg Meter/S", units: "Meter/Stroke" },
-      { field_name: "end_position_lat", units: "degrees" },
-      { field_name: "end_position_long", units: "degrees" }
-    );
-                     
+    this.fieldRegistry = FieldRegistry.fromFitData(fitData);
   }
 
-  getSessionSummary(): Record<string, any> {
+  /**
+   * Get the primitive fields of the session message, with the moving time added
+   *
+   * @param excludePauses - Recalculate the averages without the records in pauses
+   *   and stops
+   */
+  getSessionSummary(excludePauses: boolean = false): Record<string, any> {
     // all primitive values on the root level of the sessionData
     const summary: Record<string, any> = {};
     Object.entries(this.sessionData).forEach(([key, value]) => {
@@ -247,12 +308,48 @@ export class TrainingSession {
         summary[key] = value;
       }
     });  
+
+    const timeline = this.getEventTimeline();
+    summary.total_moving_time = summary.total_moving_time ?? timeline.movingTime;
+    if (excludePauses) {
+      Object.assign(summary, this.calculateMovingAverages(timeline));
+    }
     return summary;
   }
 
-  getFieldUnit(fieldName: string): string | "" {
-    const fieldDesc = this.field_descriptions.find(desc => desc.field_name === fieldName);
-    return fieldDesc ? fieldDesc.units : "";
+  /**
+   * Get the events of this session with its timer pauses, stops and moving time
+   *
+   * @param options - Thresholds for stops
+   */
+  getEventTimeline(options: EventTimelineOptions = {}): EventTimeline {
+    const records = this.records.map(record => convertMessageUnits(record, this.fitData.units, true));
+    return buildEventTimeline(this.fitData.activity.events, records, options);
+  }
+
+  /**
+   * Get the unit of a field as declared by the FIT profile or the developer app
+   *
+   * @param fieldName - Field name
+   * @param units - Unit preferences to show native fields in, by default the units
+   *   the data was parsed with
+   */
+  getFieldUnit(fieldName: string, units?: UnitPreferences): string | "" {
+    return this.fieldRegistry.getUnit(fieldName, units);
+  }
+
+  /**
+   * Get the device a field was taken from, for activities merged from several devices
+   */
+  getFieldSource(fieldName: string): FieldSource | undefined {
+    return this.fitData.merge?.fieldSources[fieldName];
+  }
+
+  /**
+   * Get the registry describing the native and developer fields of the file
+   */
+  getFieldRegistry(): FieldRegistry {
+    return this.fieldRegistry;
   }
 
 
@@ -262,7 +359,8 @@ export class TrainingSession {
   // ===============================
 
   /**
-   * Get all unique field names available in the records
+   * Get all unique field names available in the records. Developer fields are
+   * listed under the names their apps declared in the field descriptions.
    */
   getAvailableFields(): string[] {
     const fields = new Set<string>();
@@ -303,10 +401,154 @@ export class TrainingSession {
     return timeSeries;
   }
 
+  /**
+   * Get the devices that recorded the file, with their battery readings
+   */
+  getSensorInventory(): SensorDevice[] {
+    return getSensorInventory(this.fitData);
+  }
+
+  /**
+   * Get the workout the device recorded this activity from, if any
+   */
+  getRecordedWorkout(): PlannedWorkout | undefined {
+    return getRecordedWorkout(this.fitData);
+  }
+
+  /**
+   * Compare the laps of this session with a planned workout
+   *
+   * @param plan - The planned workout, by default the workout the device recorded
+   * @param options - Athlete for relative targets and the duration tolerance
+   * @returns Compliance per planned step, or undefined without a plan
+   */
+  getWorkoutCompliance(plan?: PlannedWorkout, options: WorkoutComplianceOptions = {}): WorkoutCompliance | undefined {
+    const workout = plan ?? this.getRecordedWorkout();
+    return workout ? getWorkoutCompliance(workout, getLapSegments(this.toFitData()), options) : undefined;
+  }
+
   getAllRecords(){
      return this.records;
   }
 
+  /**
+   * Get this session as parsed FIT data holding only this session and its current
+   * records, e.g. to write it to a FIT file with `writeFitData`
+   */
+  toFitData(): IFitData {
+    const laps = this.sessionData.laps ?? [];
+    const sessionStart = this.sessionData.start_time?.getTime() ?? -Infinity;
+    const sessionEnd = this.sessionData.timestamp?.getTime() ?? Infinity;
+
+    // Records are regrouped by lap start time, so removed records drop out of their laps
+    const lapsWithRecords = laps.map((lap, index) => {
+      const lapStart = index === 0 ? -Infinity : lap.start_time?.getTime() ?? -Infinity;
+      const lapEnd = laps[index + 1]?.start_time?.getTime() ?? Infinity;
+      const records = this.records.filter(record => {
+        const time = record.timestamp.getTime();
+        return time >= lapStart && time < lapEnd;
+      });
+      return { ...lap, records };
+    });
+
+    const fitData: IFitData = {
+      ...this.fitData,
+      activity: {
+        ...this.fitData.activity,
+        num_sessions: 1,
+        total_timer_time: this.sessionData.total_timer_time,
+        sessions: [{ ...this.sessionData, laps: lapsWithRecords }],
+        events: this.fitData.activity.events.filter(event => {
+          const time = event.timestamp?.getTime();
+          return time === undefined || (time >= sessionStart && time <= sessionEnd);
+        })
+      }
+    };
+
+    // The beats of the file are counted from its first timer start, the beats of
+    // this session from the session's
+    const recordingStart = getRecordingStart(this.fitData);
+    const sessionRecordingStart = getRecordingStart(fitData);
+    if (recordingStart && sessionRecordingStart) {
+      fitData.activity.hrv = sliceRRIntervals(fitData.activity.hrv ?? [], recordingStart, sessionRecordingStart, this.sessionData.timestamp);
+    }
+    return fitData;
+  }
+
+
+  /**
+   * Write the records of this session as CSV, with the field units of the file in
+   * the header
+   *
+   * @param options - Columns, units, time base and resampling
+   */
+  toCsv(options: CsvExportOptions = {}): string {
+    const records = this.records.map(record => convertMessageUnits(record, this.fitData.units, true));
+    return exportRecordsToCsv(records, { fieldUnits: this.getSiFieldUnits(), ...options });
+  }
+
+  /**
+   * Get the route of this session as GeoJSON, split per lap or per zone
+   *
+   * @param options - Segmentation, zones and units
+   */
+  toGeoJSON(options: Omit<GeoJsonExportOptions, 'sessionIndex'> = {}): GeoJsonFeatureCollection {
+    return toGeoJSON(this.toFitData(), options);
+  }
+
+  /**
+   * Get the route of this session as KML for Google Earth, with the field units of
+   * the file in the track data
+   *
+   * @param options - Fields, zones and units
+   */
+  toKml(options: Omit<KmlExportOptions, 'sessionIndex'> = {}): string {
+    return toKml(this.toFitData(), { fieldUnits: this.getSiFieldUnits(), ...options });
+  }
+
+  /**
+   * Get the route of this session as a KMZ file, see `toKml`
+   */
+  toKmz(options: Omit<KmlExportOptions, 'sessionIndex'> = {}): Promise<Blob> {
+    return toKmz(this.toFitData(), { fieldUnits: this.getSiFieldUnits(), ...options });
+  }
+
+  /**
+   * Crop this session to a time window, with lap and session summaries recalculated
+   *
+   * @param startTime - Start of the window in seconds of elapsed time
+   * @param endTime - End of the window in seconds of elapsed time
+   * @returns Data holding only the cropped session, to analyse or write to a file
+   */
+  crop(startTime: number, endTime: number): IFitData {
+    return cropActivity(this.toFitData(), this.getTimeAtElapsed(startTime), this.getTimeAtElapsed(endTime));
+  }
+
+  /**
+   * Split this session in two at a point in time, with lap and session summaries
+   * recalculated for both parts
+   *
+   * @param splitTime - Split point in seconds of elapsed time
+   * @returns The parts before and after the split point
+   */
+  split(splitTime: number): [IFitData, IFitData] {
+    return splitActivity(this.toFitData(), this.getTimeAtElapsed(splitTime));
+  }
+
+  private getSiFieldUnits(): Record<string, string> {
+    return Object.fromEntries(this.getAvailableFields().map(field => [field, this.getFieldUnit(field, SI_UNITS)]));
+  }
+
+  /**
+   * Start of the recording: the first timer start, else the start of the first session
+   */
+  private getTimeAtElapsed(elapsedTime: number): Date {
+    const start = this.records[0]?.timestamp ?? this.sessionData.start_time;
+    if (!start) {
+      throw new Error('The session has no records');
+    }
+    return new Date(start.getTime() + elapsedTime * 1000);
+  }
 
   transformFieldTimeSeries(fieldName: string, transformer:TimeSeriesTransforerFunction): TimeSeriesPoint [] {
     const timeSeries = this.getFieldTimeSeries(fieldName);
@@ -381,6 +623,74 @@ export class TrainingSession {
     return result;
   }
 
+  /**
+   * Calculate the mean-maximal curve of a field: the best average for every window
+   * length. Unlike `calculateFieldMovingAverage` the averages are weighted by time
+   * and no window spans a pause or a gap in the recording.
+   *
+   * @param fieldName - Field, e.g. power, speed, stroke rate or heart rate
+   * @param durations - Window lengths in seconds, by default every second up to the
+   *   session length
+   * @param options - Gap handling, the timer pauses of the session by default
+   * @returns The best average per duration, in the units of the records
+   */
+  calculateMeanMaxCurve(fieldName: string, durations?: number[], options: MeanMaxOptions = {}): MeanMaxPoint[] {
+    if (!this.getAvailableFields().includes(fieldName)) {
+      throw new Error(`Field "${fieldName}" does not exist in the training session data.`);
+    }
+    const samples = this.records.map(record => ({ timestamp: record.timestamp, value: record[fieldName] }));
+    return calculateMeanMaxCurve(samples, durations, { pauses: this.getEventTimeline().pauses, ...options });
+  }
+
+  /**
+   * Find the fastest segment over each distance, e.g. the best 200, 500 and 1000 m
+   * for sprint race pace. Efforts don't span timer pauses.
+   *
+   * @param distances - Distances in meters
+   * @param options - Fields to average over each effort, by default heart rate,
+   *   stroke rate, cadence and power
+   * @returns The best effort per distance the session covers, with start and end
+   *   index into `getAllRecords()`
+   */
+  findBestEfforts(distances: number[] = DEFAULT_BEST_EFFORT_DISTANCES, options: BestEffortOptions = {}): BestEffort[] {
+    return findBestEfforts(this.records, distances, { pauses: this.getEventTimeline().pauses, ...options });
+  }
+
+  /**
+   * Fit the critical power model on the best efforts of this session, or the
+   * critical speed model for a speed field. One session rarely holds maximal
+   * efforts over the whole range; a model fitted on the best efforts of a season
+   * (see `combineMeanMaxCurves`) is more reliable.
+   *
+   * @param fieldName - Power or speed field
+   * @param options - Model and range of durations
+   * @returns The model in the units of the records, or null when the efforts do
+   *   not fit one
+   */
+  getCriticalPowerModel(fieldName: string = 'power', options: CriticalPowerFitOptions = {}): CriticalPowerModel | null {
+    return fitCriticalPowerModel(this.calculateMeanMaxCurve(fieldName, getCriticalPowerDurations(options)), options);
+  }
+
+  /**
+   * Calculate the W′ balance, or the D′ balance for a speed field, at each record
+   *
+   * @param fieldName - Power or speed field
+   * @param model - Critical power or speed model, e.g. of the athlete
+   * @param options - Integral or differential model
+   */
+  getWPrimeBalance(fieldName: string, model: Pick<CriticalPowerModel, 'cp' | 'wPrime'>, options: WPrimeBalanceOptions = {}): TimeSeriesPoint[] {
+    if (!this.getAvailableFields().includes(fieldName)) {
+      throw new Error(`Field "${fieldName}" does not exist in the training session data.`);
+    }
+    const samples = this.records.map(record => ({ timestamp: record.timestamp, value: record[fieldName] }));
+    const balance = calculateWPrimeBalance(samples, model, options);
+    return this.records.map((record, index) => ({
+      timestamp: new Date(record.timestamp),
+      value: balance[index],
+      timer_time: record.timer_time
+    }));
+  }
+
   /**
    * Find peaks in any numeric field
    */
@@ -467,16 +777,9 @@ export class TrainingSession {
     timeSeries: TimeSeriesPoint[];
     zoneDistribution?: IZoneDistributionItem[];
       } {
-    // Try both common heart rate field names
-    let statistics = this.calculateFieldStatistics('heartRate');
-    let timeSeries = this.getFieldTimeSeries('heartRate');
-    let zoneDistribution =  this.getFieldZoneDistribution('heartRate', zones);
-    
-    if (!statistics || timeSeries.length === 0) {
-      statistics = this.calculateFieldStatistics('heart_rate');
-      timeSeries = this.getFieldTimeSeries('heart_rate');
-      zoneDistribution =  this.getFieldZoneDistribution('heart_rate', zones);
-    }
+    const statistics = this.calculateFieldStatistics('heart_rate');
+    const timeSeries = this.getFieldTimeSeries('heart_rate');
+    const zoneDistribution =  this.getFieldZoneDistribution('heart_rate', zones);
 
     const result: any = { statistics, timeSeries, zoneDistribution };
 
@@ -485,6 +788,57 @@ export class TrainingSession {
     return result;
   }
 
+  /**
+   * Get the beats of this session from the RR intervals of the file, with artifacts
+   * corrected. The intervals are recorded from the start of the timer, so the beat
+   * times are counted from there; elapsed time is counted from the session start.
+   */
+  getRRIntervals(): RRInterval[] {
+    const rrIntervals = extractRRIntervals(this.fitData.activity.hrv ?? []);
+    const sessionStart = this.records[0]?.timestamp ?? this.sessionData.start_time;
+    const sessionEnd = this.records[this.records.length - 1]?.timestamp ?? this.sessionData.timestamp;
+    if (rrIntervals.length === 0 || !sessionStart || !sessionEnd) return [];
+
+    return buildBeatSeries(rrIntervals, getRecordingStart(this.fitData) ?? sessionStart)
+      .filter(beat => beat.timestamp >= sessionStart && beat.timestamp <= sessionEnd)
+      .map((beat, index) => ({
+        ...beat,
+        beat: index,
+        elapsed_time: (beat.timestamp.getTime() - sessionStart.getTime()) / 1000
+      }));
+  }
+
+  /**
+   * Get the beat-to-beat analysis of this session: RMSSD, SDNN and pNN50 of the
+   * session and its laps, rolling DFA alpha1 and the aerobic threshold crossings
+   * estimated from it
+   *
+   * @param options - DFA alpha1 window length and step
+   * @returns The analysis, or null when the file has no RR intervals
+   */
+  getHrvAnalysis(options: DfaAlpha1Options = {}): HrvAnalysis | null {
+    const beats = this.getRRIntervals();
+    if (beats.length === 0) return null;
+
+    const laps = this.sessionData.laps ?? [];
+    const lapMetrics = laps.map((lap, index) => {
+      const lapStart = index === 0 ? -Infinity : lap.start_time?.getTime() ?? -Infinity;
+      const lapEnd = laps[index + 1]?.start_time?.getTime() ?? Infinity;
+      return calculateTimeDomainMetrics(beats.filter(beat => {
+        const time = beat.timestamp.getTime();
+        return time >= lapStart && time < lapEnd;
+      }));
+    });
+    const dfaAlpha1 = calculateRollingDfaAlpha1(beats, options);
+
+    return {
+      session: calculateTimeDomainMetrics(beats),
+      laps: lapMetrics,
+      dfaAlpha1,
+      aerobicThresholdCrossings: findAerobicThresholdCrossings(dfaAlpha1)
+    };
+  }
+
   /**
    * Get comprehensive speed/pace analysis
    */
@@ -494,24 +848,26 @@ export class TrainingSession {
     paceTimeSeries: TimeSeriesPoint[];
     avgPace: number | null;
     splits?: Array<{ km: number; time: number; pace: number }>;
+    criticalSpeed: CriticalPowerModel | null;
   } {
     const statistics = this.calculateFieldStatistics('speed');
     const timeSeries = this.getFieldTimeSeries('speed');
     
-    // Convert speed to pace (min/km)
+    // Convert speed in m/s to pace (min/km)
     const paceTimeSeries = timeSeries.map(point => ({
       ...point,
-      value: point.value > 0 ? 60 / point.value : 0 // min/km
+      value: speedToPace(point.value)
     }));
 
-    const avgPace = statistics?.mean ? 60 / statistics.mean : null;
+    const avgPace = statistics?.mean ? speedToPace(statistics.mean) : null;
 
     return {
       statistics,
       timeSeries,
       paceTimeSeries,
       avgPace,
-      splits: this.calculateKilometerSplits()
+      splits: this.calculateKilometerSplits(),
+      criticalSpeed: this.getCriticalPowerModel('speed')
     };
   }
 
@@ -525,6 +881,7 @@ export class TrainingSession {
     intensityFactor?: number;
     trainingStressScore?: number;
     zoneDistribution?: any;
+    criticalPower?: CriticalPowerModel | null;
   } {
     const statistics = this.calculateFieldStatistics('power');
     const timeSeries = this.getFieldTimeSeries('power');
@@ -533,6 +890,7 @@ export class TrainingSession {
 
     if (statistics && timeSeries.length > 0) {
       result.normalizedPower = this.calculateNormalizedPower(timeSeries);
+      result.criticalPower = this.getCriticalPowerModel('power');
       
       if (zones?.ftp) {
         result.intensityFactor = result.normalizedPower / zones.ftp;
@@ -548,12 +906,169 @@ export class TrainingSession {
     return result;
   }
 
+  /**
+   * Get the laps with the range of their records, statistics recomputed from the
+   * records and the change against the previous lap. Laps without records are
+   * left out.
+   *
+   * @param options - Fields to calculate statistics for and zones to distribute
+   *
+   * @example
+   * ```typescript
+   * const laps = session.getLaps({ zones: { heart_rate: hrZones } });
+   * laps.forEach(lap => console.log(lap.index + 1, lap.statistics.heart_rate?.mean, lap.deltas?.means.heart_rate));
+   * ```
+   */
+  getLaps(options: LapAnalysisOptions = {}): LapAnalysis[] {
+    const fields = options.fields ?? this.getAvailableFields().filter(field => !LAP_EXCLUDED_FIELDS.includes(field));
+    const zoneSeries = Object.fromEntries(Object.keys(options.zones ?? {})
+      .filter(field => this.getAvailableFields().includes(field))
+      .map(field => [field, this.getFieldTimeSeries(field)]));
+
+    const laps = this.getLapRanges().map(({ index, lap, startIndex, endIndex }) => {
+      const { records: _records, ...message } = lap;
+      const records = this.records.slice(startIndex, endIndex + 1);
+      const first = records[0];
+      // A lap lasts until the next lap starts
+      const end = this.records[endIndex + 1] ?? records[records.length - 1];
+      const distance = typeof first.distance === 'number' && typeof end.distance === 'number'
+        ? end.distance - first.distance
+        : lap.total_distance;
+
+      const statistics: Record<string, StatisticalSummary> = {};
+      fields.forEach(field => {
+        const values = records.map(record => record[field]).filter(value => typeof value === 'number' && !isNaN(value));
+        if (values.length > 0) statistics[field] = this.calculateStatistics(values);
+      });
+
+      const zoneDistributions: Record<string, IZoneDistributionItem[]> = {};
+      Object.entries(zoneSeries).forEach(([field, timeSeries]) => {
+        const lapSeries = timeSeries.slice(startIndex, endIndex + 1);
+        // Zone time is counted from the first point of the series
+        zoneDistributions[field] = calculateZoneDistribution(
+          lapSeries.map(point => ({ ...point, timer_time: point.timer_time - lapSeries[0].timer_time })),
+          options.zones![field]
+        );
+      });
+
+      return {
+        index,
+        lap: message,
+        startIndex,
+        endIndex,
+        startTime: new Date(lap.start_time ?? first.timestamp),
+        endTime: new Date(end.timestamp),
+        elapsedTime: end.elapsed_time - first.elapsed_time,
+        timerTime: end.timer_time - first.timer_time,
+        distance,
+        statistics,
+        zoneDistributions,
+        deltas: null as LapDeltas | null
+      };
+    });
+
+    laps.forEach((lap, index) => {
+      const previous = laps[index - 1];
+      if (!previous) return;
+      lap.deltas = {
+        timerTime: lap.timerTime - previous.timerTime,
+        distance: lap.distance !== undefined && previous.distance !== undefined ? lap.distance - previous.distance : undefined,
+        means: Object.fromEntries(Object.entries(lap.statistics)
+          .filter(([field]) => previous.statistics[field])
+          .map(([field, statistics]) => [field, statistics.mean - previous.statistics[field].mean]))
+      };
+    });
+    return laps;
+  }
+
+  /**
+   * Detect work and rest intervals
+   *
+   * The `power`, `heartRate` and `speed` methods find intervals on that channel,
+   * `pace` on speed with the thresholds as paces in min/km; a lower pace is
+   * faster, so work is at or faster than `high` and rest at or slower than `low`.
+   * `auto` uses the first channel of power, speed and heart rate with thresholds
+   * found from the data, and `manual` the laps, typed by their intensity.
+   *
+   * @param config - Detection method, thresholds and merging of short segments
+   * @param zones - Power zones, the FTP gives the intensity factor of each interval
+   * @returns The intervals in time order, covering the whole session
+   *
+   * @example
+   * ```typescript
+   * const intervals = session.detectIntervals({ method: 'power', thresholds: { high: 250, low: 150 }, minDuration: 60 });
+   * intervals.filter(i => i.type === 'work').forEach(i => console.log(i.duration, i.metrics.normalizedPower));
+   * ```
+   */
+  detectIntervals(config: IntervalDetectionConfig = { method: 'auto' }, zones?: PowerZones): TrainingInterval[] {
+    const field = this.getIntervalField(config.method);
+    const timeSeries = field ? this.getFieldTimeSeries(field) : [];
+    let segments: IntervalSegment[];
+    if (config.method === 'manual') {
+      segments = this.getLapIntervalSegments(timeSeries);
+    } else if (field) {
+      const hysteresis = config.thresholds?.hysteresis ?? 0;
+      // Paces in min/km to speeds in m/s, the band widened on the pace side
+      const thresholds = config.method === 'pace' && config.thresholds
+        ? { high: 1000 / 60 / (config.thresholds.high - hysteresis), low: 1000 / 60 / (config.thresholds.low + hysteresis) }
+        : config.thresholds;
+      segments = segmentIntervals(
+        timeSeries.map(point => ({ value: point.value, time: point.timer_time })),
+        { ...config, thresholds }
+      );
+    } else {
+      return [];
+    }
+
+    return segments.map((segment, index) => this.toTrainingInterval(segment, index, timeSeries, zones));
+  }
+
+  /**
+   * Summarise the detected intervals: counts, work and rest time and how clearly
+   * work stands out from rest. Intensities are averages of the channel the
+   * intervals were detected on.
+   *
+   * @param config - Detection method, see `detectIntervals`
+   */
+  getIntervalAnalysis(config: IntervalDetectionConfig = { method: 'auto' }): IntervalAnalysis {
+    const intervals = this.detectIntervals(config);
+    const work = intervals.filter(interval => interval.type === 'work');
+    const rest = intervals.filter(interval => interval.type === 'rest');
+    const totalTime = (list: TrainingInterval[]) => list.reduce((sum, interval) => sum + interval.duration, 0);
+    const values = (list: TrainingInterval[]) => list.flatMap(interval => interval.timeSeries.map(point => point.value));
+    const intensity = (list: TrainingInterval[]) => {
+      const points = values(list);
+      return points.length > 0 ? points.reduce((sum, value) => sum + value, 0) / points.length : 0;
+    };
+    const totalWorkTime = totalTime(work);
+    const totalRestTime = totalTime(rest);
+    const field = this.getIntervalField(config.method);
+
+    return {
+      totalIntervals: intervals.length,
+      workIntervals: work.length,
+      restIntervals: rest.length,
+      totalWorkTime,
+      totalRestTime,
+      avgWorkDuration: work.length > 0 ? totalWorkTime / work.length : 0,
+      avgRestDuration: rest.length > 0 ? totalRestTime / rest.length : 0,
+      workRestRatio: totalRestTime > 0 ? totalWorkTime / totalRestTime : 0,
+      avgWorkIntensity: intensity(work),
+      avgRestIntensity: intensity(rest),
+      detectionMethod: config.method === 'auto' && field ? `auto (${field})` : config.method,
+      // Laps are marked by the athlete, detected intervals score by how well they separate
+      confidence: config.method === 'manual'
+        ? (work.length > 0 ? 1 : 0)
+        : getSeparationConfidence(values(work), values(intervals.filter(interval => interval.type !== 'work')))
+    };
+  }
+
   /**
    * Get GPS/position analysis
    */
   getPositionAnalysis(): PositionAnalysis | null {
-    const latValues = this.getFieldValues('positionLat');
-    const lonValues = this.getFieldValues('positionLong');
+    const latValues = this.getFieldValues('position_lat');
+    const lonValues = this.getFieldValues('position_long');
     
     if (latValues.length === 0 || lonValues.length === 0) return null;
 
@@ -571,10 +1086,10 @@ export class TrainingSession {
     let totalDescent = 0;
 
     const positions = this.records
-      .filter(r => r.positionLat && r.positionLong)
+      .filter(r => r.position_lat !== undefined && r.position_long !== undefined)
       .map(r => ({
-        lat: r.positionLat,
-        lon: r.positionLong,
+        lat: r.position_lat!,
+        lon: r.position_long!,
         alt: r.altitude || 0,
         timestamp: r.timestamp
       }));
@@ -584,7 +1099,7 @@ export class TrainingSession {
       const curr = positions[i];
 
       // Calculate distance between points
-      const distance = this.calculateDistance(prev.lat, prev.lon, curr.lat, curr.lon);
+      const distance = calculateDistance(prev.lat, prev.lon, curr.lat, curr.lon);
       totalDistance += distance;
 
       // Calculate elevation change
@@ -604,7 +1119,7 @@ export class TrainingSession {
       totalDistance,
       avgSpeed: speedStats?.mean || 0,
       maxSpeed: speedStats?.max || 0,
-      avgPace: speedStats?.mean ? 60 / speedStats.mean : 0,
+      avgPace: speedStats?.mean ? speedToPace(speedStats.mean) : 0,
       totalAscent,
       totalDescent,
       elevationGain: totalAscent,
@@ -644,52 +1159,163 @@ export class TrainingSession {
   // PRIVATE HELPER METHODS
   // ===============================
 
-  private extractSessionData(sessionIndex: number): Record<string, any> {
-    // Handle standard mode (root level sessions)
-    if (this.fitData.sessions?.[sessionIndex]) {
-      return this.fitData.sessions[sessionIndex] as Record<string, any>;
-    }
-    
-    // Handle cascade mode (if activity structure exists)
-    if ((this.fitData as any).activity?.sessions?.[sessionIndex]) {
-      return (this.fitData as any).activity.sessions[sessionIndex];
-    }
-    
-    return {};
+  private extractSessionData(sessionIndex: number): Partial<IFitSession> {
+    return this.fitData.activity.sessions[sessionIndex] ?? {};
   }
 
-  private extractRecords(sessionIndex: number): Array<Record<string, any>> {
-    // Handle standard mode (root level records)
-    if (this.fitData.records && this.fitData.records.length > 0) {
-      return this.fitData.records as Array<Record<string, any>>;
+  private extractRecords(sessionIndex: number): Array<IFitRecord & Record<string, any>> {
+    // Records are nested in the session's laps (session.laps[].records)
+    const laps = this.fitData.activity.sessions[sessionIndex]?.laps ?? [];
+    const records = laps.flatMap(lap => lap.records);
+    if (records.length === 0 || (records[0].elapsed_time === 0 && records[0].timer_time === 0)) {
+      return records;
     }
-    
-    // Handle cascade mode (session.laps[].records)
-    if ((this.fitData as any).activity?.sessions?.[sessionIndex]?.laps) {
-      const laps = (this.fitData as any).activity.sessions[sessionIndex].laps;
-      const allRecords: Array<Record<string, any>> = [];
-      laps.forEach((lap: any) => {
-        if (lap.records) {
-          allRecords.push(...lap.records);
-        }
-      });
-      return allRecords;
+
+    // Times are counted from the start of the file; later sessions start at zero
+    const { elapsed_time, timer_time } = records[0];
+    return records.map(record => ({
+      ...record,
+      elapsed_time: record.elapsed_time - elapsed_time,
+      timer_time: record.timer_time - timer_time
+    }));
+  }
+
+
+  /**
+   * Channel an interval detection method works on; null for `auto` and `manual`
+   * when the session has none of power, speed and heart rate
+   */
+  private getIntervalField(method: IntervalDetectionConfig['method']): string | null {
+    const fields = this.getAvailableFields();
+    const candidates = method === 'power' || method === 'heartRate'
+      ? INTERVAL_FIELDS[method]
+      : method === 'speed' || method === 'pace'
+        ? INTERVAL_FIELDS.speed
+        : [...INTERVAL_FIELDS.power, ...INTERVAL_FIELDS.speed, ...INTERVAL_FIELDS.heartRate];
+    const field = candidates.find(name => fields.includes(name));
+    if (!field && method !== 'auto' && method !== 'manual') {
+      throw new Error(`No ${method} data in the training session for interval detection.`);
     }
-    
-    return [];
+    return field ?? null;
+  }
+
+  /**
+   * Laps with records and the range of their records, both inclusive. Records are
+   * the records of the laps in order, so the ranges follow from the lap sizes.
+   */
+  private getLapRanges(): Array<{ index: number; lap: IFitLap; startIndex: number; endIndex: number }> {
+    let startIndex = 0;
+    return (this.sessionData.laps ?? []).flatMap((lap, index) => {
+      if (lap.records.length === 0) return [];
+      const range = { index, lap, startIndex, endIndex: startIndex + lap.records.length - 1 };
+      startIndex = range.endIndex + 1;
+      return [range];
+    });
+  }
+
+  /**
+   * One segment per lap; laps without an intensity are work when their average is
+   * in the high group of the lap averages
+   */
+  private getLapIntervalSegments(timeSeries: TimeSeriesPoint[]): IntervalSegment[] {
+    const laps = this.getLapRanges().map(({ lap, startIndex, endIndex }) => {
+      const values = timeSeries.slice(startIndex, endIndex + 1).map(point => point.value);
+      return {
+        startIndex,
+        endIndex,
+        intensity: lap.intensity !== undefined ? LAP_INTENSITY_TYPES[String(lap.intensity)] : undefined,
+        average: values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0
+      };
+    });
+    const threshold = findIntervalThresholds(laps.map(lap => lap.average))?.high ?? -Infinity;
+
+    return laps.map(({ startIndex, endIndex, intensity, average }) => {
+      const end = this.records[endIndex + 1] ?? this.records[endIndex];
+      return {
+        type: intensity ?? (average >= threshold ? 'work' : 'rest'),
+        startIndex,
+        endIndex,
+        duration: end.timer_time - this.records[startIndex].timer_time
+      };
+    });
   }
 
+  private toTrainingInterval(segment: IntervalSegment, index: number, timeSeries: TimeSeriesPoint[], zones?: PowerZones): TrainingInterval {
+    const records = this.records.slice(segment.startIndex, segment.endIndex + 1);
+    const fields = this.getAvailableFields();
+    const valuesOf = (candidates: string[]) => {
+      const field = candidates.find(name => fields.includes(name));
+      return field ? records.map(record => record[field]).filter(value => typeof value === 'number' && !isNaN(value)) : [];
+    };
+    const average = (values: number[]) => values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : undefined;
+    const maximum = (values: number[]) => values.length > 0 ? Math.max(...values) : undefined;
+
+    const power = valuesOf(INTERVAL_FIELDS.power);
+    const heartRate = valuesOf(INTERVAL_FIELDS.heartRate);
+    const powerField = INTERVAL_FIELDS.power.find(name => fields.includes(name));
+    const normalizedPower = powerField
+      ? this.calculateNormalizedPowerForSeries(records.map(record => ({
+          timestamp: new Date(record.timestamp),
+          value: record[powerField] ?? 0,
+          timer_time: record.timer_time
+        })))
+      : undefined;
+
+    return {
+      id: `interval-${index + 1}`,
+      type: segment.type,
+      startTime: new Date(records[0].timestamp),
+      endTime: new Date(records[records.length - 1].timestamp),
+      duration: segment.duration,
+      startIndex: segment.startIndex,
+      endIndex: segment.endIndex,
+      metrics: {
+        avgPower: average(power),
+        avgHeartRate: average(heartRate),
+        avgSpeed: average(valuesOf(INTERVAL_FIELDS.speed)),
+        maxPower: maximum(power),
+        maxHeartRate: maximum(heartRate),
+        normalizedPower: normalizedPower || undefined,
+        intensityFactor: normalizedPower && zones?.ftp ? normalizedPower / zones.ftp : undefined
+      },
+      timeSeries: timeSeries.slice(segment.startIndex, segment.endIndex + 1)
+    };
+  }
 
   private getTotalDuration(): number {
-    const sessionTime = this.sessionData.totalTimerTime || this.sessionData.total_timer_time;
+    const sessionTime = this.sessionData.total_timer_time;
     if (sessionTime) return sessionTime;
 
-    // Calculate from records
-    if (this.records.length < 2) return 0;
-    const firstRecord = this.records[0];
-    const lastRecord = this.records[this.records.length - 1];
-    
-    return Math.floor((lastRecord.timestamp.getTime() - firstRecord.timestamp.getTime()) / 1000);
+    // Calculate from records, without the timer pauses
+    return Math.floor(this.getEventTimeline().timerTime);
+  }
+
+  /**
+   * Averages of the session fields over the records outside pauses and stops
+   */
+  private calculateMovingAverages(timeline: EventTimeline): Record<string, number> {
+    const movingRecords = this.records.filter(record => !isPaused(timeline, record.timestamp));
+    const averages: Record<string, number> = {};
+    const fields: Record<string, string> = {
+      avg_heart_rate: 'heart_rate',
+      avg_cadence: 'cadence',
+      avg_power: 'power',
+      avg_speed: 'speed',
+      enhanced_avg_speed: 'enhanced_speed',
+      // Summaries boat computers write for their developer fields
+      'average watt': 'watt',
+      'stroke rate avg': 'stroke rate'
+    };
+
+    Object.entries(fields).forEach(([summaryField, recordField]) => {
+      const values = movingRecords
+        .map(record => record[recordField])
+        .filter(value => typeof value === 'number' && !isNaN(value));
+      if (values.length > 0) {
+        averages[summaryField] = this.calculateStatistics(values).mean;
+      }
+    });
+    return averages;
   }
 
   private calculateStatistics(values: number[]): StatisticalSummary {
@@ -793,8 +1419,13 @@ export class TrainingSession {
   private calculateNormalizedPower(powerTimeSeries: TimeSeriesPoint[]): number {
     if (powerTimeSeries.length === 0) return 0;
 
-    // Calculate 30-second moving average
-    const movingAvg = this.calculateFieldMovingAverage('power', 30);
+    // Calculate 30-second moving average of the series
+    const windowSize = 30;
+    const movingAvg = powerTimeSeries.length < windowSize
+      ? powerTimeSeries
+      : powerTimeSeries.slice(windowSize - 1).map((_, index) => ({
+          value: powerTimeSeries.slice(index, index + windowSize).reduce((sum, point) => sum + point.value, 0) / windowSize
+        }));
     
     // Raise each value to the 4th power
     const fourthPowers = movingAvg.map(point => Math.pow(point.value, 4));
@@ -815,7 +1446,7 @@ export class TrainingSession {
   }
 
   /**
-   * Calculate kilometer splits
+   * Calculate kilometer splits from the distance in meters
    */
   private calculateKilometerSplits(): Array<{ km: number; time: number; pace: number }> {
     const distanceField = this.getFieldTimeSeries('distance');
@@ -844,30 +1475,12 @@ export class TrainingSession {
     return splits;
   }
 
-  /**
-   * Calculate distance between GPS coordinates
-   */
-  private calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-    const R = 6371000; // Earth's radius in meters
-    const φ1 = lat1 * Math.PI / 180;
-    const φ2 = lat2 * Math.PI / 180;
-    const Δφ = (lat2 - lat1) * Math.PI / 180;
-    const Δλ = (lon2 - lon1) * Math.PI / 180;
-
-    const a = Math.sin(Δφ/2) * Math.sin(Δφ/2) +
-              Math.cos(φ1) * Math.cos(φ2) *
-              Math.sin(Δλ/2) * Math.sin(Δλ/2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-
-    return R * c;
-  }
-
   sessionTextSummary():string{
     return this.asTextSummary(this.sessionData, "Session");
   }
 
   lapTextSummary(lap:number):string{
-    return this.asTextSummary(this.sessionData.laps[lap], "Lap");
+    return this.asTextSummary(this.sessionData.laps?.[lap] ?? {}, "Lap");
   }
     
 
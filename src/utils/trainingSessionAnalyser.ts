@@ -1,14 +1,65 @@
-import { TrainingSession,type TimeSeriesPoint } from './trainingSession';
+import {
+    TrainingSession,
+    type IntervalAnalysis,
+    type IntervalDetectionConfig,
+    type LapAnalysis,
+    type TimeSeriesPoint,
+    type TrainingInterval
+} from './trainingSession';
 import { type Athlete } from './athlete';
 import { type IZoneDistributionItem } from './zones';
 import { fixSensorNoise } from './fixSensorNoise';
+import { writeFitData, type IFitRecord } from './fitFileParser';
+import { convertMessageUnits, convertToSI, UNIT_SYSTEMS, type UnitPreferences } from './units';
+import { type HrvAnalysis } from './hrv';
+import { type EventTimeline } from './eventTimeline';
+import { type GeoJsonFeatureCollection, type GeoJsonSegmentation } from './geoJsonExport';
+import { type PlannedWorkout, type WorkoutCompliance } from './workoutPlan';
+import { type CriticalPowerModel, type WPrimeBalanceMethod } from './criticalPower';
+
+/**
+ * Zone sets of the athlete a map track can be coloured by
+ */
+export type AthleteZoneSet = 'heartRateZones' | 'speedZones' | 'powerZones' | 'cadenceZones';
+
+/** Fields each zone set applies to, in order of preference */
+const ZONE_SET_FIELDS: Record<AthleteZoneSet, string[]> = {
+    heartRateZones: ['heart_rate'],
+    speedZones: ['enhanced_speed', 'speed'],
+    powerZones: ['watt', 'power'],
+    cadenceZones: ['stroke rate', 'cadence']
+};
+
+/**
+ * Quantities a critical model is fitted for: power gives CP and W′, speed gives
+ * CS and D′
+ */
+export type CriticalQuantity = 'power' | 'speed';
+
+/**
+ * Critical model of a session with the field it applies to and the W′ balance
+ * channel it adds to the records
+ */
+export interface CriticalModelAnalysis {
+    field: string;
+    channel: string;
+    model: CriticalPowerModel;
+    /** True when fitted on the best efforts of this session, false when the athlete's model */
+    fitted: boolean;
+}
+
+const CRITICAL_QUANTITIES: Record<CriticalQuantity, { zoneSet: AthleteZoneSet; athleteModel: 'criticalPower' | 'criticalSpeed'; channel: string }> = {
+    power: { zoneSet: 'powerZones', athleteModel: 'criticalPower', channel: 'w_prime_balance' },
+    speed: { zoneSet: 'speedZones', athleteModel: 'criticalSpeed', channel: 'd_prime_balance' }
+};
 
 export class TrainingSessionAnalyser {
     trainingSession: TrainingSession;
     athlete: Athlete;
+    private criticalModels = new Map<CriticalQuantity, CriticalModelAnalysis | null>();
     
-    constructor(fitData: any, athlete: Athlete) {
-        this.trainingSession = new TrainingSession(fitData);
+    constructor(fitData: any, athlete: Athlete, sessionIndex: number = 0) {
+        this.trainingSession = new TrainingSession(fitData, sessionIndex);
         this.athlete = athlete;
     }
 
@@ -19,22 +70,181 @@ export class TrainingSessionAnalyser {
         );
     } 
 
-    getSessionSummary(): any {
-        const summary = this.trainingSession.getSessionSummary();
+    /**
+     * Beat-to-beat analysis of the session, null when the file has no RR intervals
+     */
+    getHrvAnalysis(): HrvAnalysis | null {
+        return this.trainingSession.getHrvAnalysis();
+    }
+
+    getSessionSummary(excludePauses: boolean = false): any {
+        const summary = this.trainingSession.getSessionSummary(excludePauses);
         return summary
     }
 
+    /**
+     * Events of the session with its pauses, stops and moving time
+     */
+    getEventTimeline(): EventTimeline {
+        return this.trainingSession.getEventTimeline();
+    }
+
+    /**
+     * Compare the laps with a planned workout, relative targets resolved against
+     * the athlete
+     *
+     * @param plan - The planned workout, by default the workout the device recorded
+     */
+    getWorkoutCompliance(plan?: PlannedWorkout): WorkoutCompliance | undefined {
+        return this.trainingSession.getWorkoutCompliance(plan, { athlete: this.athlete });
+    }
+
+    /**
+     * Work and rest intervals of the session, by default detected automatically
+     */
+    detectIntervals(config: IntervalDetectionConfig = { method: 'auto' }): TrainingInterval[] {
+        return this.trainingSession.detectIntervals(config);
+    }
+
+    getIntervalAnalysis(config: IntervalDetectionConfig = { method: 'auto' }): IntervalAnalysis {
+        return this.trainingSession.getIntervalAnalysis(config);
+    }
+
+    /**
+     * Laps of the session with their statistics and the time in each of the
+     * athlete's zone sets
+     */
+    getLaps(): LapAnalysis[] {
+        const fields = this.trainingSession.getAvailableFields();
+        const zones = Object.fromEntries((Object.keys(ZONE_SET_FIELDS) as AthleteZoneSet[]).flatMap(zoneSet => {
+            const field = ZONE_SET_FIELDS[zoneSet].find(name => fields.includes(name));
+            if (!field) return [];
+            // The athlete's speed zones are in km/h, the records in m/s
+            const athleteZones = zoneSet === 'speedZones'
+                ? this.athlete.speedZones.map(zone => ({
+                    ...zone,
+                    min: convertToSI(zone.min, 'speed', UNIT_SYSTEMS.metric),
+                    max: convertToSI(zone.max, 'speed', UNIT_SYSTEMS.metric)
+                }))
+                : this.athlete[zoneSet];
+            return [[field, athleteZones]];
+        }));
+        return this.trainingSession.getLaps({ zones });
+    }
+
     getFieldTimeSeries(fieldName: string): TimeSeriesPoint[] {
         return this.trainingSession.getFieldTimeSeries(fieldName);
     }
 
+    /**
+     * Fields of the records, with the W′ and D′ balance channels when a model applies
+     */
     getAvailableDataFields(): string[] {
-        return this.trainingSession.getAvailableFields();
+        const channels = (Object.keys(CRITICAL_QUANTITIES) as CriticalQuantity[])
+            .map(quantity => this.getCriticalModel(quantity)?.channel)
+            .filter((channel): channel is string => channel !== undefined);
+        return [...this.trainingSession.getAvailableFields(), ...channels];
+    }
+
+    /**
+     * Units of the available fields, keyed by field name
+     *
+     * @param units - Unit preferences, by default the units the data was parsed with
+     * @param fields - Fields to get the units of, by default the available fields
+     */
+    getFieldUnits(units?: UnitPreferences, fields: string[] = this.getAvailableDataFields()): Record<string, string> {
+        return Object.fromEntries(
+            fields.map(field => [field, this.trainingSession.getFieldUnit(field, units)])
+        );
+    }
+
+    /**
+     * Critical power or critical speed model for the session: the athlete's model
+     * when set, otherwise fitted on the best efforts of the session
+     *
+     * @returns The model, or null when the session lacks the field or no model fits
+     */
+    getCriticalModel(quantity: CriticalQuantity): CriticalModelAnalysis | null {
+        if (!this.criticalModels.has(quantity)) {
+            const { zoneSet, athleteModel, channel } = CRITICAL_QUANTITIES[quantity];
+            const fields = this.trainingSession.getAvailableFields();
+            const field = ZONE_SET_FIELDS[zoneSet].find(name => fields.includes(name));
+            const model = field ? this.athlete[athleteModel] ?? this.trainingSession.getCriticalPowerModel(field) : null;
+            this.criticalModels.set(quantity, field && model
+                ? { field, channel, model, fitted: !this.athlete[athleteModel] }
+                : null);
+        }
+        return this.criticalModels.get(quantity) ?? null;
+    }
+
+    /**
+     * W′ balance (power) or D′ balance (speed) at each record. Skiba's integral
+     * model is defined for watts, so the D′ balance always uses the differential
+     * model.
+     */
+    getWPrimeBalance(quantity: CriticalQuantity = 'power', method: WPrimeBalanceMethod = 'integral'): TimeSeriesPoint[] {
+        const critical = this.getCriticalModel(quantity);
+        if (!critical) return [];
+        return this.trainingSession.getWPrimeBalance(critical.field, critical.model, {
+            method: quantity === 'speed' ? 'differential' : method
+        });
+    }
+
+    /**
+     * Records with sensor noise fixed and the W′ and D′ balance channels added
+     *
+     * @param wPrimeBalanceMethod - Model of the W′ balance
+     */
+    getAllRecords(wPrimeBalanceMethod: WPrimeBalanceMethod = 'integral'): IFitRecord[] {
+        // The thresholds of fixSensorNoise are in km/h, so it runs on metric records.
+        // It copies the records as they are, timestamps stay dates.
+        const metric = this.trainingSession.getAllRecords().map(record => convertMessageUnits(record, UNIT_SYSTEMS.metric));
+        const records = (fixSensorNoise(metric).fixedData as unknown as IFitRecord[])
+            .map(record => convertMessageUnits(record, UNIT_SYSTEMS.metric, true));
+        (Object.keys(CRITICAL_QUANTITIES) as CriticalQuantity[]).forEach(quantity => {
+            const channel = this.getCriticalModel(quantity)?.channel;
+            if (!channel) return;
+            // The records of the session map one to one to the fixed records
+            this.getWPrimeBalance(quantity, wPrimeBalanceMethod)
+                .forEach((point, index) => records[index][channel] = point.value);
+        });
+        return records;
+    }
+
+    /**
+     * Encode the analysed session as a binary FIT file
+     */
+    toFitFile(): Uint8Array {
+        return writeFitData(this.trainingSession.toFitData());
+    }
+
+    /**
+     * Get the route as GeoJSON, split per lap or per heart rate zone of the athlete
+     */
+    toGeoJSON(segmentBy: GeoJsonSegmentation = 'lap', units?: UnitPreferences): GeoJsonFeatureCollection {
+        return this.trainingSession.toGeoJSON({
+            segmentBy,
+            zoneField: 'heart_rate',
+            zones: this.athlete.heartRateZones,
+            units
+        });
     }
 
-    getAllRecords(){
-        const records = this.trainingSession.getAllRecords();
-        return fixSensorNoise(records).fixedData;
+    /**
+     * Get the route as a KMZ file for Google Earth, the track coloured by one of
+     * the athlete's zone sets
+     */
+    toKmz(zoneSet: AthleteZoneSet = 'heartRateZones', name?: string): Promise<Blob> {
+        const fields = this.getAvailableDataFields();
+        const zoneField = ZONE_SET_FIELDS[zoneSet].find(field => fields.includes(field)) ?? ZONE_SET_FIELDS[zoneSet][0];
+        return this.trainingSession.toKmz({
+            name,
+            zones: this.athlete[zoneSet],
+            // Route points carry the enhanced speed as speed
+            zoneField: zoneField === 'enhanced_speed' ? 'speed' : zoneField,
+            // The athlete's zones are metric, e.g. speed zones in km/h
+            units: UNIT_SYSTEMS.metric
+        });
     }
 
 }
\ No newline at end of file
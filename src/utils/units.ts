@@ -0,0 +1,203 @@
+/**
+ * Units
+ *
+ * Parsed data is kept in canonical SI units: speed in m/s, distance, altitude and
+ * other lengths in m, temperature in degrees Celsius. Everything shown to the user
+ * is converted here, according to the unit preferences: metric, imperial, or
+ * nautical with knots and nautical miles for sea kayaking and sailing.
+ */
+
+export type UnitSystem = 'metric' | 'imperial' | 'nautical';
+export type SpeedUnit = 'm/s' | 'km/h' | 'mph' | 'kn';
+export type DistanceUnit = 'm' | 'km' | 'mi' | 'nmi';
+export type ElevationUnit = 'm' | 'ft';
+export type TemperatureUnit = 'celsius' | 'fahrenheit';
+
+/**
+ * Kind of physical quantity a field holds
+ */
+export type Quantity = 'speed' | 'distance' | 'elevation' | 'temperature';
+
+/**
+ * Units data is converted to. `elevation` also covers short lengths such as
+ * stroke length and GPS accuracy.
+ */
+export interface UnitPreferences {
+  speed: SpeedUnit;
+  distance: DistanceUnit;
+  elevation: ElevationUnit;
+  temperature: TemperatureUnit;
+}
+
+/** The canonical units of parsed data */
+export const SI_UNITS: UnitPreferences = {
+  speed: 'm/s',
+  distance: 'm',
+  elevation: 'm',
+  temperature: 'celsius'
+};
+
+export const UNIT_SYSTEMS: Record<UnitSystem, UnitPreferences> = {
+  metric: { speed: 'km/h', distance: 'km', elevation: 'm', temperature: 'celsius' },
+  imperial: { speed: 'mph', distance: 'mi', elevation: 'ft', temperature: 'fahrenheit' },
+  nautical: { speed: 'kn', distance: 'nmi', elevation: 'm', temperature: 'celsius' }
+};
+
+const FIELD_QUANTITIES: Record<Quantity, string[]> = {
+  speed: [
+    'speed', 'enhanced_speed', 'vertical_speed', 'avg_speed', 'max_speed',
+    'enhanced_avg_speed', 'enhanced_max_speed'
+  ],
+  distance: ['distance', 'total_distance'],
+  elevation: [
+    'altitude', 'enhanced_altitude', 'avg_altitude', 'min_altitude', 'max_altitude',
+    'enhanced_avg_altitude', 'enhanced_min_altitude', 'enhanced_max_altitude',
+    'total_ascent', 'total_descent', 'cycle_length', 'gps_accuracy'
+  ],
+  temperature: ['temperature', 'avg_temperature', 'max_temperature', 'min_temperature']
+};
+
+/** Size of one unit in SI units, for the linear units */
+const UNIT_FACTORS: Record<SpeedUnit | DistanceUnit | ElevationUnit, number> = {
+  'm/s': 1,
+  'km/h': 1 / 3.6,
+  mph: 0.44704,
+  kn: 1852 / 3600,
+  m: 1,
+  km: 1000,
+  mi: 1609.344,
+  nmi: 1852,
+  ft: 0.3048
+};
+
+const UNIT_LABELS: Record<SpeedUnit | DistanceUnit | ElevationUnit | TemperatureUnit, string> = {
+  'm/s': 'm/s',
+  'km/h': 'km/h',
+  mph: 'mph',
+  kn: 'kn',
+  m: 'm',
+  km: 'km',
+  mi: 'mi',
+  nmi: 'nmi',
+  ft: 'ft',
+  celsius: '°C',
+  fahrenheit: '°F'
+};
+
+/**
+ * Get the unit preferences of a unit system
+ */
+export function getUnitPreferences(system: UnitSystem): UnitPreferences {
+  return UNIT_SYSTEMS[system];
+}
+
+/**
+ * Get the quantity a field holds, or undefined for fields that are not converted
+ */
+export function getFieldQuantity(fieldName: string): Quantity | undefined {
+  return (Object.keys(FIELD_QUANTITIES) as Quantity[]).find(quantity =>
+    FIELD_QUANTITIES[quantity].includes(fieldName)
+  );
+}
+
+/**
+ * Convert a value from SI units into the preferred unit of its quantity
+ *
+ * @example
+ * ```typescript
+ * convertFromSI(1852, 'distance', UNIT_SYSTEMS.nautical); // 1
+ * convertFromSI(20, 'temperature', UNIT_SYSTEMS.imperial); // 68
+ * ```
+ */
+export function convertFromSI(value: number, quantity: Quantity, units: UnitPreferences): number {
+  if (quantity === 'temperature') {
+    return units.temperature === 'fahrenheit' ? value * 9 / 5 + 32 : value;
+  }
+  return value / UNIT_FACTORS[units[quantity]];
+}
+
+/**
+ * Convert a value in the preferred unit of its quantity back into SI units
+ */
+export function convertToSI(value: number, quantity: Quantity, units: UnitPreferences): number {
+  if (quantity === 'temperature') {
+    return units.temperature === 'fahrenheit' ? (value - 32) * 5 / 9 : value;
+  }
+  return value * UNIT_FACTORS[units[quantity]];
+}
+
+/**
+ * Convert a field value from SI units, values of other fields are returned as is
+ */
+export function convertFieldValue(fieldName: string, value: number, units: UnitPreferences): number {
+  const quantity = getFieldQuantity(fieldName);
+  return quantity ? convertFromSI(value, quantity, units) : value;
+}
+
+/**
+ * Convert the numeric fields of a message or record between SI units and the unit
+ * preferences. Returns a copy.
+ *
+ * @param message - Message with field values
+ * @param units - Unit preferences
+ * @param toSI - Convert from the preferences to SI instead
+ */
+export function convertMessageUnits<T extends object>(message: T, units: UnitPreferences, toSI = false): T {
+  const converted = { ...message } as Record<string, unknown>;
+  for (const [key, value] of Object.entries(converted)) {
+    const quantity = typeof value === 'number' ? getFieldQuantity(key) : undefined;
+    if (quantity) {
+      converted[key] = toSI
+        ? convertToSI(value as number, quantity, units)
+        : convertFromSI(value as number, quantity, units);
+    }
+  }
+  return converted as T;
+}
+
+/**
+ * Get the label of the preferred unit of a quantity, e.g. `kn`
+ */
+export function getQuantityUnit(quantity: Quantity, units: UnitPreferences): string {
+  return UNIT_LABELS[units[quantity]];
+}
+
+/**
+ * Get the unit of a field in the unit preferences
+ *
+ * @param fieldName - Field name, e.g. `enhanced_speed`
+ * @param siUnits - Unit of the field in SI data, used for fields that are not converted
+ * @param units - Unit preferences
+ */
+export function getPreferredFieldUnit(fieldName: string, siUnits: string | undefined, units: UnitPreferences): string | undefined {
+  const quantity = getFieldQuantity(fieldName);
+  return quantity ? getQuantityUnit(quantity, units) : siUnits;
+}
+
+/**
+ * Format a value in SI units with the preferred unit, e.g. `12.35 km`
+ */
+export function formatQuantity(value: number, quantity: Quantity, units: UnitPreferences, decimals = 2): string {
+  const converted = convertFromSI(value, quantity, units);
+  return `${Number(converted.toFixed(decimals))} ${getQuantityUnit(quantity, units)}`;
+}
+
+/**
+ * Convert a speed in m/s into the pace in minutes per preferred distance unit.
+ * Distances in meters are paced per kilometer.
+ */
+export function speedToPace(speed: number, units: UnitPreferences = SI_UNITS): number {
+  if (speed <= 0) return 0;
+  return UNIT_FACTORS[getPaceDistanceUnit(units)] / speed / 60;
+}
+
+/**
+ * Get the label of the pace unit, e.g. `min/nmi`
+ */
+export function getPaceUnit(units: UnitPreferences): string {
+  return `min/${UNIT_LABELS[getPaceDistanceUnit(units)]}`;
+}
+
+function getPaceDistanceUnit(units: UnitPreferences): DistanceUnit {
+  return units.distance === 'm' ? 'km' : units.distance;
+}
@@ -0,0 +1,561 @@
+/**
+ * Workout Plan
+ *
+ * Planned workouts and how well a session followed them. Plans come from FIT
+ * workout files, from the workout a device recorded the activity from, or from a
+ * simple JSON format. Repeats are unrolled into the steps as they are executed,
+ * each executed lap (or detected interval) is aligned to its planned step and
+ * compared with the step's duration and target ranges.
+ */
+
+import { decodeFit, type FitWorkoutMessage, type FitWorkoutStepMessage } from './fitDecoder';
+import { type IFitData } from './fitFileParser';
+import { convertMessageUnits, convertToSI, UNIT_SYSTEMS } from './units';
+import { type IZone } from './zones';
+
+/**
+ * Metrics a step can target; stroke rate is the cadence of the FIT profile and
+ * speed targets are shown as pace
+ */
+export type WorkoutMetric = 'power' | 'heart_rate' | 'stroke_rate' | 'speed';
+
+/**
+ * Target range of a step
+ */
+export interface WorkoutTarget {
+  metric: WorkoutMetric;
+  /** Lower bound, open when undefined */
+  low?: number;
+  /** Upper bound, open when undefined */
+  high?: number;
+  /**
+   * How the bounds are given: in W, bpm, strokes/min or m/s, in percent of FTP or
+   * max heart rate, or as a zone number starting at 1
+   */
+  scale: 'absolute' | 'percent' | 'zone';
+}
+
+/**
+ * A step of a planned workout, as executed: repeated steps appear once per round
+ */
+export interface PlannedStep {
+  /** Index of the step in the workout, as in the `wkt_step_index` of laps */
+  stepIndex: number;
+  name?: string;
+  /** `warmup`, `active`, `rest`, `recovery`, `cooldown`, ... */
+  intensity?: string;
+  /** `time`, `distance`, `open` or another FIT duration type, e.g. `hr_less_than` */
+  durationType: string;
+  /** Seconds for time steps, metres for distance steps */
+  durationValue?: number;
+  targets: WorkoutTarget[];
+  notes?: string;
+  /** Round of the repeat the step is in, starting at 1 */
+  round?: number;
+}
+
+export interface PlannedWorkout {
+  name?: string;
+  sport?: string;
+  steps: PlannedStep[];
+}
+
+/**
+ * An executed part of the session: a lap or a detected interval
+ */
+export interface ExecutedSegment {
+  /** e.g. `Lap 3` */
+  label: string;
+  start: Date;
+  end: Date;
+  /** Timer time in seconds */
+  duration: number;
+  /** Distance in metres */
+  distance?: number;
+  /** Workout step the device recorded the lap for */
+  stepIndex?: number;
+  /** Records of the segment in SI units */
+  records: Array<Record<string, any>>;
+}
+
+/**
+ * An athlete's reference values for relative targets, zones in metric units as
+ * in the `Athlete` profiles
+ */
+export interface WorkoutAthlete {
+  ftp?: number;
+  maxHeartRate?: number;
+  heartRateZones?: IZone[];
+  powerZones?: IZone[];
+  cadenceZones?: IZone[];
+  speedZones?: IZone[];
+}
+
+export interface TargetCompliance {
+  metric: WorkoutMetric;
+  /** Field the actual value was taken from */
+  field?: string;
+  /** Target range in W, bpm, strokes/min or m/s; undefined when relative to an unknown reference */
+  low?: number;
+  high?: number;
+  /** Average over the segment */
+  actual?: number;
+  /** Share of the records in the target range, 0-1 */
+  timeInRange?: number;
+  /** Undefined when the range or the data is missing */
+  hit?: boolean;
+}
+
+export interface StepCompliance {
+  step: PlannedStep;
+  /** Segment aligned to the step, undefined for skipped steps */
+  segment?: Omit<ExecutedSegment, 'records'>;
+  /** Seconds or metres, for time and distance steps */
+  actualDuration?: number;
+  /** Undefined for open steps */
+  durationHit?: boolean;
+  targets: TargetCompliance[];
+  status: 'hit' | 'missed' | 'skipped';
+}
+
+export interface WorkoutCompliance {
+  name?: string;
+  sport?: string;
+  steps: StepCompliance[];
+  /** Segments no step was aligned to */
+  unplanned: Array<Omit<ExecutedSegment, 'records'>>;
+  hitSteps: number;
+}
+
+export interface WorkoutComplianceOptions {
+  /** Reference values for targets in percent or zones */
+  athlete?: WorkoutAthlete;
+  /** Allowed deviation from the planned duration or distance, as a fraction (default: 0.05) */
+  durationTolerance?: number;
+}
+
+/** Record fields of each metric, in order of preference */
+const METRIC_FIELDS: Record<WorkoutMetric, string[]> = {
+  power: ['watt', 'power'],
+  heart_rate: ['heart_rate'],
+  stroke_rate: ['stroke rate', 'cadence'],
+  speed: ['enhanced_speed', 'speed']
+};
+
+const TARGET_METRICS: Record<string, WorkoutMetric> = {
+  power: 'power', power_3s: 'power', power_10s: 'power', power_30s: 'power', power_lap: 'power',
+  heart_rate: 'heart_rate', heart_rate_lap: 'heart_rate',
+  cadence: 'stroke_rate',
+  speed: 'speed', speed_lap: 'speed'
+};
+
+/** FIT power targets above this are watts plus 1000, below it percent of FTP */
+const POWER_OFFSET = 1000;
+/** FIT heart rate targets above this are bpm plus 100, below it percent of max heart rate */
+const HEART_RATE_OFFSET = 100;
+
+/**
+ * Read a planned workout from a FIT workout file or a JSON plan
+ *
+ * @param content - File content; text and content starting with a brace are read as JSON
+ * @returns The workout with its repeats unrolled
+ *
+ * @example
+ * ```typescript
+ * const plan = readWorkoutPlan(await file.arrayBuffer());
+ * console.log(`${plan.name}: ${plan.steps.length} steps`);
+ * ```
+ */
+export function readWorkoutPlan(content: ArrayBuffer | Uint8Array | string): PlannedWorkout {
+  if (typeof content === 'string') {
+    return parseWorkoutJson(content);
+  }
+  const bytes = content instanceof Uint8Array ? content : new Uint8Array(content);
+  const text = new TextDecoder().decode(bytes.subarray(0, 64));
+  if (text.trimStart().startsWith('{')) {
+    return parseWorkoutJson(new TextDecoder().decode(bytes));
+  }
+
+  const { messages } = decodeFit(bytes);
+  if (messages.workout_step.length === 0) {
+    throw new Error('FIT file has no workout steps');
+  }
+  return fromFitWorkout(messages.workout[0], messages.workout_step);
+}
+
+/**
+ * Get the workout an activity was recorded from, as stored by the device
+ *
+ * @returns The workout, or undefined for activities without one
+ */
+export function getRecordedWorkout(fitData: IFitData): PlannedWorkout | undefined {
+  const { workouts, workout_steps } = fitData.activity;
+  return workout_steps.length > 0 ? fromFitWorkout(workouts[0], workout_steps) : undefined;
+}
+
+/**
+ * Convert FIT `workout` and `workout_step` messages into a planned workout
+ *
+ * Steps that repeat earlier steps until they are completed a number of times are
+ * unrolled; other repeats run once, as their number of rounds isn't known up front.
+ */
+export function fromFitWorkout(workout: FitWorkoutMessage | undefined, workoutSteps: FitWorkoutStepMessage[]): PlannedWorkout {
+  const messages = workoutSteps
+    .map((message, index) => ({ message, stepIndex: message.message_index ?? index }))
+    .sort((a, b) => a.stepIndex - b.stepIndex);
+
+  const steps: PlannedStep[] = [];
+  // Position of each step's first execution, where repeats start
+  const firstExecution = new Map<number, number>();
+
+  for (const { message, stepIndex } of messages) {
+    const durationType = String(message.duration_type ?? 'open');
+    if (durationType.startsWith('repeat_until')) {
+      const from = firstExecution.get(message.duration_value ?? 0);
+      const rounds = durationType === 'repeat_until_steps_cmplt' ? message.target_value ?? 1 : 1;
+      if (from === undefined) continue;
+      const block = steps.slice(from);
+      block.forEach(step => step.round = step.round ?? 1);
+      for (let round = 2; round <= rounds; round++) {
+        steps.push(...block.map(step => ({ ...step, round })));
+      }
+      continue;
+    }
+
+    firstExecution.set(stepIndex, steps.length);
+    const target = fitTarget(message);
+    steps.push({
+      stepIndex,
+      name: message.wkt_step_name,
+      intensity: message.intensity !== undefined ? String(message.intensity) : undefined,
+      durationType,
+      durationValue: fitDurationValue(durationType, message.duration_value),
+      targets: target ? [target] : [],
+      notes: message.notes
+    });
+  }
+
+  return {
+    name: workout?.wkt_name,
+    sport: workout?.sport !== undefined ? String(workout.sport) : undefined,
+    steps
+  };
+}
+
+function fitDurationValue(durationType: string, value: number | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  if (durationType === 'time') return value / 1000;
+  if (durationType === 'distance') return value / 100;
+  return undefined;
+}
+
+function fitTarget(message: FitWorkoutStepMessage): WorkoutTarget | undefined {
+  const metric = TARGET_METRICS[String(message.target_type)];
+  if (!metric) return undefined;
+
+  const low = message.custom_target_value_low || undefined;
+  const high = message.custom_target_value_high || undefined;
+  if (low === undefined && high === undefined) {
+    return message.target_value ? { metric, low: message.target_value, high: message.target_value, scale: 'zone' } : undefined;
+  }
+
+  switch (metric) {
+    case 'power':
+      return offsetTarget(metric, low, high, POWER_OFFSET);
+    case 'heart_rate':
+      return offsetTarget(metric, low, high, HEART_RATE_OFFSET);
+    case 'speed':
+      return { metric, low: low !== undefined ? low / 1000 : undefined, high: high !== undefined ? high / 1000 : undefined, scale: 'absolute' };
+    default:
+      return { metric, low, high, scale: 'absolute' };
+  }
+}
+
+/**
+ * FIT power and heart rate targets are relative up to an offset and absolute,
+ * shifted by the offset, above it
+ */
+function offsetTarget(metric: WorkoutMetric, low: number | undefined, high: number | undefined, offset: number): WorkoutTarget {
+  const absolute = (low ?? high ?? 0) > offset;
+  const bound = (value: number | undefined) => value !== undefined && absolute ? value - offset : value;
+  return { metric, low: bound(low), high: bound(high), scale: absolute ? 'absolute' : 'percent' };
+}
+
+/**
+ * Parse a workout plan in the JSON format:
+ *
+ * ```json
+ * {
+ *   "name": "3 x 10 min threshold",
+ *   "sport": "paddling",
+ *   "steps": [
+ *     { "name": "Warm-up", "intensity": "warmup", "duration": 600, "heart_rate": [120, 140] },
+ *     { "repeat": 3, "steps": [
+ *       { "name": "Work", "duration": 600, "power": [200, 230], "stroke_rate": [80, 86] },
+ *       { "name": "Rest", "intensity": "rest", "duration": 120 }
+ *     ] },
+ *     { "name": "Cool-down", "intensity": "cooldown", "distance": 2000, "pace": ["6:30", "6:00"] }
+ *   ]
+ * }
+ * ```
+ *
+ * Durations are seconds and distances metres; steps with neither end with the lap
+ * button. Targets are `[low, high]` ranges in W, bpm, strokes/min and m/s (`speed`),
+ * or a pace range per km from slow to fast. Steps are numbered in document order
+ * with each repeat after its steps, as in FIT workout files.
+ */
+export function parseWorkoutJson(json: string): PlannedWorkout {
+  const plan: unknown = JSON.parse(json);
+  if (!isJsonObject(plan) || !Array.isArray(plan.steps)) {
+    throw new Error('Workout plan has no steps');
+  }
+
+  let nextStepIndex = 0;
+  const unroll = (definitions: unknown[]): PlannedStep[] => definitions.flatMap((definition): PlannedStep[] => {
+    if (!isJsonObject(definition)) {
+      throw new Error(`Step ${nextStepIndex + 1} must be an object`);
+    }
+    if (definition.steps === undefined) {
+      return [jsonStep(definition, nextStepIndex++)];
+    }
+
+    if (!Array.isArray(definition.steps) || definition.steps.length === 0) {
+      throw new Error(`Step ${nextStepIndex + 1}: repeat has no steps`);
+    }
+    const block = unroll(definition.steps);
+    const repeat = definition.repeat ?? 1;
+    if (typeof repeat !== 'number' || !Number.isInteger(repeat) || repeat < 1) {
+      throw new Error(`Step ${nextStepIndex + 1}: repeat must be a whole number of at least 1`);
+    }
+    nextStepIndex++;
+    return Array.from({ length: repeat }, (_, round) => block.map(step => ({ ...step, round: round + 1 }))).flat();
+  });
+
+  return {
+    name: jsonString(plan.name, 'Workout plan name'),
+    sport: jsonString(plan.sport, 'Workout plan sport'),
+    steps: unroll(plan.steps)
+  };
+}
+
+function jsonStep(definition: Record<string, unknown>, stepIndex: number): PlannedStep {
+  const targets: WorkoutTarget[] = [];
+  (['power', 'heart_rate', 'stroke_rate', 'speed'] as WorkoutMetric[]).forEach(metric => {
+    if (definition[metric] !== undefined) {
+      const [low, high] = jsonRange(definition[metric], metric, stepIndex);
+      targets.push({ metric, low, high, scale: 'absolute' });
+    }
+  });
+  if (definition.pace !== undefined) {
+    // Slow to fast pace is low to high speed
+    const [slow, fast] = jsonRange(definition.pace, 'pace', stepIndex).map(pace => pace !== undefined ? 1000 / pace : undefined);
+    targets.push({ metric: 'speed', low: slow, high: fast, scale: 'absolute' });
+  }
+
+  const durationField = definition.duration !== undefined ? 'duration' : definition.distance !== undefined ? 'distance' : undefined;
+  const durationValue = durationField && definition[durationField];
+  if (durationField && (typeof durationValue !== 'number' || !isFinite(durationValue) || durationValue <= 0)) {
+    throw new Error(`Step ${stepIndex + 1}: ${durationField} must be a positive number`);
+  }
+  return {
+    stepIndex,
+    name: jsonString(definition.name, `Step ${stepIndex + 1}: name`),
+    intensity: jsonString(definition.intensity, `Step ${stepIndex + 1}: intensity`) ?? 'active',
+    durationType: durationField === 'duration' ? 'time' : durationField ?? 'open',
+    durationValue: typeof durationValue === 'number' ? durationValue : undefined,
+    targets,
+    notes: jsonString(definition.notes, `Step ${stepIndex + 1}: notes`)
+  };
+}
+
+/**
+ * A `[low, high]` range, `null` for an open bound; pace bounds are `m:ss` per km
+ * and returned in seconds
+ */
+function jsonRange(range: unknown, name: string, stepIndex: number): Array<number | undefined> {
+  if (!Array.isArray(range) || range.length !== 2) {
+    throw new Error(`Step ${stepIndex + 1}: ${name} must be a [low, high] range`);
+  }
+  return range.map((bound: unknown) => {
+    if (bound === null) return undefined;
+    const value = typeof bound === 'string' && /^\d+(:\d{1,2})+$/.test(bound)
+      ? bound.split(':').reduce((seconds, part) => seconds * 60 + Number(part), 0)
+      : bound;
+    if (typeof value !== 'number' || !isFinite(value) || (name === 'pace' && value <= 0)) {
+      throw new Error(`Step ${stepIndex + 1}: invalid ${name} ${JSON.stringify(bound)}`);
+    }
+    return value;
+  });
+}
+
+function jsonString(value: unknown, description: string): string | undefined {
+  if (value !== undefined && typeof value !== 'string') {
+    throw new Error(`${description} must be a string`);
+  }
+  return value;
+}
+
+function isJsonObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Get the laps of a session as executed segments
+ *
+ * @param fitData - Parsed data, from any parser and in any units
+ * @param sessionIndex - Session, for multi-session files
+ */
+export function getLapSegments(fitData: IFitData, sessionIndex: number = 0): ExecutedSegment[] {
+  const laps = fitData.activity.sessions[sessionIndex]?.laps ?? [];
+  return laps.filter(lap => lap.records.length > 0).map((lap, index) => {
+    const records = lap.records.map(record => convertMessageUnits(record, fitData.units, true));
+    const first = records[0];
+    const last = records[records.length - 1];
+    const distance = lap.total_distance !== undefined
+      ? convertMessageUnits({ total_distance: lap.total_distance }, fitData.units, true).total_distance
+      : typeof first.distance === 'number' && typeof last.distance === 'number' ? last.distance - first.distance : undefined;
+
+    return {
+      label: `Lap ${index + 1}`,
+      start: first.timestamp,
+      end: last.timestamp,
+      duration: lap.total_timer_time ?? (last.timer_time ?? 0) - (first.timer_time ?? 0),
+      distance,
+      stepIndex: lap.wkt_step_index,
+      records
+    };
+  });
+}
+
+/**
+ * Compare executed segments with a planned workout
+ *
+ * Segments are aligned to the steps by the workout step index the device wrote
+ * into its laps, or else in order. A step is hit when its duration is within the
+ * tolerance and the averages of all its targets are in range.
+ *
+ * @param plan - The planned workout
+ * @param segments - Laps or detected intervals of the session, in time order
+ * @param options - Athlete for relative targets and the duration tolerance
+ * @returns Compliance per planned step
+ *
+ * @example
+ * ```typescript
+ * const report = getWorkoutCompliance(plan, getLapSegments(fitData), { athlete: siven });
+ * report.steps.forEach(({ step, status }) => console.log(step.name, status));
+ * ```
+ */
+export function getWorkoutCompliance(
+  plan: PlannedWorkout,
+  segments: ExecutedSegment[],
+  options: WorkoutComplianceOptions = {}
+): WorkoutCompliance {
+  const aligned = alignSegments(plan.steps, segments);
+  const steps = plan.steps.map((step, index) => stepCompliance(step, aligned[index], options));
+  const used = new Set(aligned);
+
+  return {
+    name: plan.name,
+    sport: plan.sport,
+    steps,
+    unplanned: segments.filter(segment => !used.has(segment)).map(withoutRecords),
+    hitSteps: steps.filter(step => step.status === 'hit').length
+  };
+}
+
+/**
+ * The segment of each step, undefined for steps without one
+ */
+function alignSegments(steps: PlannedStep[], segments: ExecutedSegment[]): Array<ExecutedSegment | undefined> {
+  const aligned: Array<ExecutedSegment | undefined> = new Array(steps.length).fill(undefined);
+  if (!segments.some(segment => segment.stepIndex !== undefined)) {
+    segments.slice(0, steps.length).forEach((segment, index) => aligned[index] = segment);
+    return aligned;
+  }
+
+  // Repeated steps share their index, so each lap takes the next execution of its step
+  let position = 0;
+  for (const segment of segments) {
+    const index = steps.findIndex((step, stepPosition) =>
+      stepPosition >= position && step.stepIndex === segment.stepIndex && !aligned[stepPosition]);
+    if (index >= 0) {
+      aligned[index] = segment;
+      position = index + 1;
+    }
+  }
+  return aligned;
+}
+
+function stepCompliance(step: PlannedStep, segment: ExecutedSegment | undefined, options: WorkoutComplianceOptions): StepCompliance {
+  const targets = step.targets.map(target => targetCompliance(target, segment?.records ?? [], options.athlete ?? {}));
+  if (!segment) {
+    return { step, targets, status: 'skipped' };
+  }
+
+  const tolerance = options.durationTolerance ?? 0.05;
+  const actualDuration = step.durationType === 'time' ? segment.duration
+    : step.durationType === 'distance' ? segment.distance
+    : undefined;
+  const durationHit = step.durationValue !== undefined && actualDuration !== undefined
+    ? Math.abs(actualDuration - step.durationValue) <= step.durationValue * tolerance
+    : undefined;
+  const hit = durationHit !== false && targets.every(target => target.hit !== false);
+
+  return { step, segment: withoutRecords(segment), actualDuration, durationHit, targets, status: hit ? 'hit' : 'missed' };
+}
+
+function targetCompliance(target: WorkoutTarget, records: Array<Record<string, any>>, athlete: WorkoutAthlete): TargetCompliance {
+  const [low, high] = resolveTarget(target, athlete);
+  const field = METRIC_FIELDS[target.metric].find(name => records.some(record => typeof record[name] === 'number'));
+  const values = field ? records.map(record => record[field]).filter((value): value is number => typeof value === 'number' && !isNaN(value)) : [];
+  if (values.length === 0) {
+    return { metric: target.metric, low, high };
+  }
+
+  const inRange = (value: number) => (low === undefined || value >= low) && (high === undefined || value <= high);
+  const actual = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const resolved = target.scale === 'absolute' || low !== undefined || high !== undefined;
+
+  return {
+    metric: target.metric,
+    field,
+    low,
+    high,
+    actual,
+    timeInRange: resolved ? values.filter(inRange).length / values.length : undefined,
+    hit: resolved ? inRange(actual) : undefined
+  };
+}
+
+/**
+ * Absolute bounds of a target; bounds relative to unknown references stay undefined
+ */
+function resolveTarget(target: WorkoutTarget, athlete: WorkoutAthlete): Array<number | undefined> {
+  const bounds = [target.low, target.high];
+  if (target.scale === 'absolute') {
+    return bounds;
+  }
+
+  if (target.scale === 'percent') {
+    const reference = target.metric === 'power' ? athlete.ftp : target.metric === 'heart_rate' ? athlete.maxHeartRate : undefined;
+    return bounds.map(bound => bound !== undefined && reference ? bound / 100 * reference : undefined);
+  }
+
+  const zones = {
+    power: athlete.powerZones,
+    heart_rate: athlete.heartRateZones,
+    stroke_rate: athlete.cadenceZones,
+    speed: athlete.speedZones
+  }[target.metric];
+  const zone = zones?.[(target.low ?? 0) - 1];
+  if (!zone) return [undefined, undefined];
+  const range = [zone.min, isFinite(zone.max) ? zone.max : undefined];
+  // The athlete's speed zones are in km/h
+  return target.metric === 'speed'
+    ? range.map(bound => bound !== undefined ? convertToSI(bound, 'speed', UNIT_SYSTEMS.metric) : undefined)
+    : range;
+}
+
+function withoutRecords({ records, ...segment }: ExecutedSegment): Omit<ExecutedSegment, 'records'> {
+  return segment;
+}
@@ -0,0 +1,309 @@
+/**
+ * ZIP Archive
+ *
+ * Reads ZIP archives in the browser without a server or library: entries are
+ * listed from the central directory and inflated with the native
+ * `DecompressionStream`. Data is sliced from the archive only when an entry is read,
+ * so multi-gigabyte exports don't have to fit in memory. ZIP64 archives are
+ * supported, encrypted entries are not.
+ *
+ * Archives are written the same way, deflated with the native `CompressionStream`,
+ * e.g. for KMZ files.
+ */
+
+/**
+ * A file in a ZIP archive
+ */
+export interface ZipEntry {
+  /** Path of the file inside the archive, e.g. `DI_CONNECT/DI-Connect-Uploaded-Files/activity.fit` */
+  name: string;
+  /** Uncompressed size in bytes */
+  size: number;
+  /** Inflate the file */
+  read(): Promise<Uint8Array>;
+}
+
+/**
+ * A file to write to a ZIP archive
+ */
+export interface ZipFile {
+  /** Path of the file inside the archive */
+  name: string;
+  /** Content; text is written as UTF-8 */
+  data: Uint8Array | string;
+  /** Modification time (default: now) */
+  lastModified?: Date;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY = 0x06064b50;
+const ZIP64_END_LOCATOR = 0x07064b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const ZIP64_EXTRA_FIELD = 0x0001;
+/** End of central directory record without comment, and the longest comment */
+const END_RECORD_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+const FLAG_ENCRYPTED = 0x0001;
+const FLAG_UTF8 = 0x0800;
+/** Version 2.0: deflate */
+const VERSION_NEEDED = 20;
+
+/**
+ * Check the signature of a file for a ZIP archive
+ */
+export async function isZipArchive(blob: Blob): Promise<boolean> {
+  if (blob.size < 4) return false;
+  const bytes = await readSlice(blob, 0, 4);
+  return new DataView(bytes.buffer, bytes.byteOffset).getUint32(0, true) === LOCAL_FILE_HEADER;
+}
+
+/**
+ * List the files of a ZIP archive; directories are left out
+ *
+ * @param archive - The archive, e.g. a `File` from a file input
+ * @returns The entries in central directory order
+ * @throws Error when the archive has no central directory
+ *
+ * @example
+ * ```typescript
+ * const entries = await readZipEntries(file);
+ * for (const entry of entries.filter(entry => entry.name.endsWith('.fit'))) {
+ *   const fitData = await parseFitData(await entry.read());
+ * }
+ * ```
+ */
+export async function readZipEntries(archive: Blob): Promise<ZipEntry[]> {
+  const { offset, size, count } = await findCentralDirectory(archive);
+  const directory = await readSlice(archive, offset, offset + size);
+  const view = new DataView(directory.buffer, directory.byteOffset, directory.byteLength);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+
+  let position = 0;
+  for (let i = 0; i < count && position + 46 <= directory.length; i++) {
+    if (view.getUint32(position, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error(`Invalid ZIP central directory entry at ${offset + position}`);
+    }
+    const flags = view.getUint16(position + 8, true);
+    const method = view.getUint16(position + 10, true);
+    let compressedSize = view.getUint32(position + 20, true);
+    let uncompressedSize = view.getUint32(position + 24, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const extraLength = view.getUint16(position + 30, true);
+    const commentLength = view.getUint16(position + 32, true);
+    let localHeaderOffset = view.getUint32(position + 42, true);
+    const name = decoder.decode(directory.subarray(position + 46, position + 46 + nameLength));
+
+    // ZIP64 sizes and offsets replace the 32-bit fields that are set to 0xffffffff
+    const zip64 = findExtraField(view, position + 46 + nameLength, extraLength, ZIP64_EXTRA_FIELD);
+    if (zip64 !== undefined) {
+      let field = zip64;
+      if (uncompressedSize === 0xffffffff) { uncompressedSize = readUint64(view, field); field += 8; }
+      if (compressedSize === 0xffffffff) { compressedSize = readUint64(view, field); field += 8; }
+      if (localHeaderOffset === 0xffffffff) { localHeaderOffset = readUint64(view, field); }
+    }
+    position += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+    entries.push({
+      name,
+      size: uncompressedSize,
+      read: () => readEntry(archive, name, flags, method, localHeaderOffset, compressedSize)
+    });
+  }
+  return entries;
+}
+
+/**
+ * Write files to a ZIP archive, deflated
+ *
+ * The archive is built in memory and without ZIP64, so it is meant for exports of
+ * a few megabytes rather than for bulk archives.
+ *
+ * @param files - Files in the order they are written
+ * @returns The archive
+ *
+ * @example
+ * ```typescript
+ * const kmz = await createZipArchive([{ name: 'doc.kml', data: kml }]);
+ * const url = URL.createObjectURL(kmz);
+ * ```
+ */
+export async function createZipArchive(files: ZipFile[]): Promise<Blob> {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const directory: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = encoder.encode(file.name);
+    const data = typeof file.data === 'string' ? encoder.encode(file.data) : file.data;
+    const compressed = await deflateRaw(data);
+    const { time, date } = toDosDateTime(file.lastModified ?? new Date());
+    const crc = crc32(data);
+
+    const header = new Uint8Array(30 + name.length);
+    const view = new DataView(header.buffer);
+    view.setUint32(0, LOCAL_FILE_HEADER, true);
+    view.setUint16(4, VERSION_NEEDED, true);
+    view.setUint16(6, FLAG_UTF8, true);
+    view.setUint16(8, METHOD_DEFLATE, true);
+    view.setUint16(10, time, true);
+    view.setUint16(12, date, true);
+    view.setUint32(14, crc, true);
+    view.setUint32(18, compressed.length, true);
+    view.setUint32(22, data.length, true);
+    view.setUint16(26, name.length, true);
+    header.set(name, 30);
+
+    const entry = new Uint8Array(46 + name.length);
+    const entryView = new DataView(entry.buffer);
+    entryView.setUint32(0, CENTRAL_DIRECTORY_HEADER, true);
+    entryView.setUint16(4, VERSION_NEEDED, true);
+    entryView.setUint16(6, VERSION_NEEDED, true);
+    entryView.setUint16(8, FLAG_UTF8, true);
+    entryView.setUint16(10, METHOD_DEFLATE, true);
+    entryView.setUint16(12, time, true);
+    entryView.setUint16(14, date, true);
+    entryView.setUint32(16, crc, true);
+    entryView.setUint32(20, compressed.length, true);
+    entryView.setUint32(24, data.length, true);
+    entryView.setUint16(28, name.length, true);
+    entryView.setUint32(42, offset, true);
+    entry.set(name, 46);
+
+    parts.push(header, compressed);
+    directory.push(entry);
+    offset += header.length + compressed.length;
+  }
+
+  const directorySize = directory.reduce((size, entry) => size + entry.length, 0);
+  const end = new Uint8Array(END_RECORD_SIZE);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+  endView.setUint16(8, files.length, true);
+  endView.setUint16(10, files.length, true);
+  endView.setUint32(12, directorySize, true);
+  endView.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...directory, end], { type: 'application/zip' });
+}
+
+async function findCentralDirectory(archive: Blob): Promise<{ offset: number; size: number; count: number }> {
+  const tailStart = Math.max(0, archive.size - END_RECORD_SIZE - MAX_COMMENT_SIZE - 20);
+  const tail = await readSlice(archive, tailStart, archive.size);
+  const view = new DataView(tail.buffer, tail.byteOffset, tail.byteLength);
+
+  for (let position = tail.length - END_RECORD_SIZE; position >= 0; position--) {
+    if (view.getUint32(position, true) !== END_OF_CENTRAL_DIRECTORY) continue;
+
+    const count = view.getUint16(position + 10, true);
+    const size = view.getUint32(position + 12, true);
+    const offset = view.getUint32(position + 16, true);
+    if (count !== 0xffff && size !== 0xffffffff && offset !== 0xffffffff) {
+      return { offset, size, count };
+    }
+
+    // ZIP64: the locator right before the record points to the ZIP64 end record
+    if (position < 20 || view.getUint32(position - 20, true) !== ZIP64_END_LOCATOR) {
+      throw new Error('ZIP64 archive without ZIP64 end of central directory locator');
+    }
+    const recordOffset = readUint64(view, position - 20 + 8);
+    const record = await readSlice(archive, recordOffset, recordOffset + 56);
+    const recordView = new DataView(record.buffer, record.byteOffset, record.byteLength);
+    if (recordView.getUint32(0, true) !== ZIP64_END_OF_CENTRAL_DIRECTORY) {
+      throw new Error('Invalid ZIP64 end of central directory record');
+    }
+    return {
+      count: readUint64(recordView, 32),
+      size: readUint64(recordView, 40),
+      offset: readUint64(recordView, 48)
+    };
+  }
+  throw new Error('Not a ZIP archive: end of central directory not found');
+}
+
+async function readEntry(
+  archive: Blob,
+  name: string,
+  flags: number,
+  method: number,
+  localHeaderOffset: number,
+  compressedSize: number
+): Promise<Uint8Array> {
+  if (flags & FLAG_ENCRYPTED) {
+    throw new Error(`${name} is encrypted`);
+  }
+
+  // The local header repeats name and extra field, with lengths that may differ
+  const header = await readSlice(archive, localHeaderOffset, localHeaderOffset + 30);
+  const view = new DataView(header.buffer, header.byteOffset, header.byteLength);
+  if (view.getUint32(0, true) !== LOCAL_FILE_HEADER) {
+    throw new Error(`Invalid ZIP local header for ${name}`);
+  }
+  const dataStart = localHeaderOffset + 30 + view.getUint16(26, true) + view.getUint16(28, true);
+  const compressed = archive.slice(dataStart, dataStart + compressedSize);
+
+  switch (method) {
+    case METHOD_STORED:
+      return new Uint8Array(await compressed.arrayBuffer());
+    case METHOD_DEFLATE: {
+      const stream = compressed.stream().pipeThrough(new DecompressionStream('deflate-raw'));
+      return new Uint8Array(await new Response(stream).arrayBuffer());
+    }
+    default:
+      throw new Error(`${name} uses unsupported compression method ${method}`);
+  }
+}
+
+function findExtraField(view: DataView, start: number, length: number, id: number): number | undefined {
+  for (let position = start; position + 4 <= start + length;) {
+    const fieldId = view.getUint16(position, true);
+    const fieldSize = view.getUint16(position + 2, true);
+    if (fieldId === id) return position + 4;
+    position += 4 + fieldSize;
+  }
+  return undefined;
+}
+
+function readUint64(view: DataView, offset: number): number {
+  return view.getUint32(offset, true) + view.getUint32(offset + 4, true) * 0x100000000;
+}
+
+async function deflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * MS-DOS time and date fields; ZIP stores local time with two second resolution
+ */
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
+
+let crcTable: Uint32Array | undefined;
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (const byte of data) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+async function readSlice(blob: Blob, start: number, end: number): Promise<Uint8Array> {
+  return new Uint8Array(await blob.slice(start, end).arrayBuffer());
+}
@@ -0,0 +1,116 @@
+/**
+ * Activity Parser Worker
+ *
+ * Decodes FIT files and runs the session analysis off the main thread. The last
+ * loaded activity is kept, so its sessions can be analysed without sending the
+ * data again. Talk to it through `ActivityWorker` in `utils/activityWorker.ts`.
+ */
+
+import { type ActivityWorkerRequest, type ActivityWorkerResponse, type AnalyseOptions, type ParseProgress, type SessionAnalysis } from '../utils/activityWorker';
+import { type Athlete } from '../utils/athlete';
+import { decodeFit } from '../utils/fitDecoder';
+import { buildRecoveredFitData, type IFitData } from '../utils/fitFileParser';
+import { TrainingSession } from '../utils/trainingSession';
+import { TrainingSessionAnalyser } from '../utils/trainingSessionAnalyser';
+
+let fitData: IFitData | null = null;
+
+function post(response: ActivityWorkerResponse): void {
+  self.postMessage(response);
+}
+
+function parse(id: number, content: ArrayBuffer): IFitData {
+  const reportProgress = (progress: ParseProgress) => post({ type: 'progress', id, progress });
+
+  try {
+    // Truncated and corrupt files are recovered, the UI shows what was lost
+    const { header, messages, diagnostics } = decodeFit(new Uint8Array(content), {
+      recover: true,
+      onProgress: (loaded, total) => reportProgress({ stage: 'decoding', loaded, total })
+    });
+
+    const recordCount = messages.record.length;
+    reportProgress({ stage: 'building', loaded: 0, total: recordCount });
+    const data = buildRecoveredFitData(header, messages, diagnostics);
+    reportProgress({ stage: 'building', loaded: recordCount, total: recordCount });
+    return data;
+  } catch (error) {
+    throw new Error(`Failed to parse FIT data: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Run the analysis steps of a session. Progress counts the records processed over
+ * all steps.
+ */
+function analyse(id: number, data: IFitData, sessionIndex: number, athlete: Athlete, options: AnalyseOptions): SessionAnalysis {
+  const analyser = new TrainingSessionAnalyser(data, athlete, sessionIndex);
+  const recordCount = analyser.trainingSession.getAllRecords().length;
+  const steps = 6;
+  const reportProgress = (completedSteps: number) => post({
+    type: 'progress',
+    id,
+    progress: { stage: 'analysing', loaded: completedSteps * recordCount, total: steps * recordCount }
+  });
+
+  reportProgress(0);
+  const heartRateDistribution = analyser.getHeartRateDistribution();
+  reportProgress(1);
+  const activityData = analyser.getAllRecords(options.wPrimeBalanceMethod);
+  reportProgress(2);
+  const hrv = analyser.getHrvAnalysis();
+  reportProgress(3);
+  const timeline = analyser.getEventTimeline();
+  reportProgress(4);
+  const intervals = analyser.detectIntervals();
+  const intervalAnalysis = analyser.getIntervalAnalysis();
+  reportProgress(5);
+  const laps = analyser.getLaps();
+  reportProgress(6);
+
+  return {
+    summary: analyser.getSessionSummary(options.excludePauses),
+    heartRateDistribution,
+    activityData,
+    availableDataFields: analyser.getAvailableDataFields(),
+    hrv,
+    timeline,
+    criticalPower: analyser.getCriticalModel('power'),
+    criticalSpeed: analyser.getCriticalModel('speed'),
+    intervals,
+    intervalAnalysis,
+    laps
+  };
+}
+
+self.onmessage = (event: MessageEvent<ActivityWorkerRequest>) => {
+  const request = event.data;
+
+  try {
+    switch (request.type) {
+      case 'parse':
+        fitData = parse(request.id, request.content);
+        post({ type: 'result', id: request.id, result: fitData });
+        break;
+      case 'load':
+        fitData = request.fitData;
+        post({ type: 'result', id: request.id, result: null });
+        break;
+      case 'analyse':
+        if (!fitData) {
+          throw new Error('No activity loaded, parse a file first');
+        }
+        post({ type: 'result', id: request.id, result: analyse(request.id, fitData, request.sessionIndex, request.athlete, request.options) });
+        break;
+      case 'meanMax':
+        if (!fitData) {
+          throw new Error('No activity loaded, parse a file first');
+        }
+        post({ type: 'result', id: request.id, result: new TrainingSession(fitData, request.sessionIndex).calculateMeanMaxCurve(request.fieldName, request.durations) });
+        break;
+    }
+  } catch (error) {
+    console.error('Activity worker request failed:', error);
+    post({ type: 'error', id: request.id, message: error instanceof Error ? error.message : String(error) });
+  }
+};